@@ -0,0 +1,58 @@
+// Branch name templates, e.g. "${user}/${ticket}-${bucket}".
+
+export const DEFAULT_BRANCH_TEMPLATE = 'feature/${bucket}';
+
+export interface BranchNameTokens {
+    user: string;
+    sourceBranch: string;
+    bucket: string;
+    ticket: string;
+    index: number;
+    date: string;
+}
+
+const TOKEN_PATTERN = /\$\{(\w+)\}/g;
+// `\b` can't sit before "#", so the #123 form is matched at the start or after a non-word character
+const TICKET_PATTERN = /\b([A-Z][A-Z0-9]+-\d+)\b|(?:^|[^\w])#(\d+)\b/;
+
+/** Lower-cased, dash-separated form of free text, safe inside a ref name. */
+export function slugify(text: string, maxLength = 40): string {
+    return text.toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .substring(0, maxLength)
+        .replace(/-+$/, '');
+}
+
+/** First issue key (JIRA-123) or #123 reference found in the given texts. */
+export function findTicket(...texts: (string | undefined)[]): string {
+    for (const text of texts) {
+        const match = text?.match(TICKET_PATTERN);
+        if (match) {
+            return match[1] || match[2];
+        }
+    }
+    return '';
+}
+
+/** Names of the tokens used by a template that aren't known, for validation messages. */
+export function getUnknownTokens(template: string): string[] {
+    const known = new Set<string>(['user', 'sourceBranch', 'bucket', 'ticket', 'index', 'date']);
+    return [...template.matchAll(TOKEN_PATTERN)].map(match => match[1]).filter(name => !known.has(name));
+}
+
+/**
+ * Expands a template. Separators left dangling by empty tokens (no ticket, detached
+ * source branch) are collapsed, so "${user}/${ticket}-${bucket}" still gives "jdoe/login-fix".
+ */
+export function renderBranchName(template: string, tokens: BranchNameTokens): string {
+    // Own properties only: `${constructor}` or `${toString}` render empty like any unknown token
+    const rendered = template.replace(TOKEN_PATTERN, (_, name: string) =>
+        Object.prototype.hasOwnProperty.call(tokens, name) ? String(tokens[name as keyof BranchNameTokens]) : '');
+
+    return rendered
+        .split('/')
+        .map(segment => segment.replace(/([-_.])[-_.]+/g, '$1').replace(/^[-_.]+|[-_.]+$/g, ''))
+        .filter(segment => segment.length > 0)
+        .join('/');
+}
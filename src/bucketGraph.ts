@@ -0,0 +1,92 @@
+import { PRBucket } from './treeViewProvider';
+
+// Dependency graph between buckets: ordering, cycle detection and rendering.
+
+export class DependencyCycleError extends Error {
+    constructor(readonly cycle: string[]) {
+        super(`Circular dependency: ${cycle.join(' → ')}`);
+        this.name = 'DependencyCycleError';
+    }
+}
+
+export function getParents(bucket: PRBucket): string[] {
+    return bucket.dependsOn || [];
+}
+
+/**
+ * Returns bucket names with every parent before its children, keeping the
+ * user's bucket order otherwise. Throws a DependencyCycleError naming the whole cycle.
+ */
+export function topologicalOrder(buckets: PRBucket[]): string[] {
+    const byName = new Map(buckets.map(b => [b.name, b]));
+    const visited = new Set<string>();
+    const path: string[] = [];
+    const order: string[] = [];
+
+    const visit = (name: string) => {
+        if (visited.has(name)) {
+            return;
+        }
+        const cycleStart = path.indexOf(name);
+        if (cycleStart >= 0) {
+            throw new DependencyCycleError([...path.slice(cycleStart), name]);
+        }
+
+        path.push(name);
+        // Parents that no longer exist (deleted buckets) are ignored
+        for (const parent of getParents(byName.get(name)!).filter(p => byName.has(p))) {
+            visit(parent);
+        }
+        path.pop();
+        visited.add(name);
+        order.push(name);
+    };
+
+    for (const bucket of buckets) {
+        visit(bucket.name);
+    }
+    return order;
+}
+
+/** The cycle that setting `parents` on `bucketName` would create, if any. */
+export function findCycleWith(buckets: PRBucket[], bucketName: string, parents: string[]): string[] | undefined {
+    const candidate = buckets.map(b => b.name === bucketName ? { ...b, dependsOn: parents } : b);
+    try {
+        topologicalOrder(candidate);
+        return undefined;
+    } catch (error) {
+        if (error instanceof DependencyCycleError) {
+            return error.cycle;
+        }
+        throw error;
+    }
+}
+
+/** Markdown document with a Mermaid diagram of the bucket DAG and a plain-text fallback. */
+export function renderDependencyGraph(buckets: PRBucket[]): string {
+    const ids = new Map(buckets.map((b, index) => [b.name, `b${index}`]));
+    const label = (text: string) => text.replace(/"/g, '#quot;');
+
+    const lines: string[] = ['# Bucket Dependencies', '', '```mermaid', 'graph BT'];
+    for (const bucket of buckets) {
+        const status = bucket.pipeline?.stage === 'pr-opened' ? ' ✓' : '';
+        lines.push(`    ${ids.get(bucket.name)}["${label(bucket.name)}${status}<br/>${bucket.files.length} file(s)"]`);
+    }
+    for (const bucket of buckets) {
+        for (const parent of getParents(bucket)) {
+            if (ids.has(parent)) {
+                lines.push(`    ${ids.get(bucket.name)} --> ${ids.get(parent)}`);
+            }
+        }
+    }
+    lines.push('```', '');
+
+    for (const bucket of buckets) {
+        const parents = getParents(bucket);
+        lines.push(`- **${bucket.name}**${parents.length > 0 ? ` depends on ${parents.join(', ')}` : ' (base)'}`);
+        if (parents.length > 1) {
+            lines.push('  - Based on an integration branch merging all of its parents');
+        }
+    }
+    return lines.join('\n');
+}
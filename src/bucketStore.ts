@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { FileItem, PRBucket } from './treeViewProvider';
+
+interface StoredBuckets {
+    version: 1 | 2;  // 1: dependsOn was a single bucket name
+    savedAt: string;
+    buckets: PRBucket[];
+}
+
+/**
+ * Saves bucket definitions in the workspace state, keyed by repository root
+ * and source branch, so a split survives window reloads and branch switches.
+ */
+export class BucketStore {
+    constructor(private readonly state: vscode.Memento, private readonly repoRoot: string) {}
+
+    private key(sourceBranch: string): string {
+        return `multiPR.buckets:${this.repoRoot}:${sourceBranch || '(detached)'}`;
+    }
+
+    load(sourceBranch: string): PRBucket[] {
+        const stored = this.state.get<StoredBuckets>(this.key(sourceBranch));
+        if (!stored || (stored.version !== 1 && stored.version !== 2) || !Array.isArray(stored.buckets)) {
+            return [];
+        }
+        return stored.buckets.map(bucket => ({
+            ...bucket,
+            dependsOn: this.migrateDependsOn(bucket.dependsOn as string[] | string | undefined),
+            files: (bucket.files || []).map(file => ({ ...file }))
+        }));
+    }
+
+    async save(sourceBranch: string, buckets: PRBucket[]): Promise<void> {
+        if (buckets.length === 0) {
+            await this.state.update(this.key(sourceBranch), undefined);
+            return;
+        }
+
+        const stored: StoredBuckets = {
+            version: 2,
+            savedAt: new Date().toISOString(),
+            buckets: buckets.map(bucket => ({
+                ...bucket,
+                files: bucket.files.map(file => this.serializeFile(file))
+            }))
+        };
+        await this.state.update(this.key(sourceBranch), stored);
+    }
+
+    private migrateDependsOn(dependsOn: string[] | string | undefined): string[] | undefined {
+        if (typeof dependsOn === 'string') {
+            return [dependsOn];
+        }
+        return Array.isArray(dependsOn) && dependsOn.length > 0 ? dependsOn : undefined;
+    }
+
+    private serializeFile(file: FileItem): FileItem {
+        // Size and mtime are refreshed from disk on every reload
+        const { size, lastModified, ...rest } = file;
+        return rest;
+    }
+}
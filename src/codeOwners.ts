@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// CODEOWNERS parsing for GitHub, GitLab and Bitbucket.
+
+/** First existing file wins, as on the forges themselves. */
+export const CODEOWNERS_PATHS = [
+    '.github/CODEOWNERS',
+    '.gitlab/CODEOWNERS',
+    '.bitbucket/CODEOWNERS',
+    'CODEOWNERS',
+    'docs/CODEOWNERS'
+];
+
+interface CodeOwnersRule {
+    pattern: string;
+    regex: RegExp;
+    owners: string[];
+    section?: string;
+}
+
+/** Converts a gitignore-style CODEOWNERS pattern into a regular expression over repo-relative paths. */
+function patternToRegExp(pattern: string): RegExp {
+    let glob = pattern;
+    const dirOnly = glob.endsWith('/');
+    glob = glob.replace(/\/+$/, '');
+    // Patterns with a slash anywhere but the end are relative to the repository root
+    const anchored = glob.includes('/');
+    glob = glob.replace(/^\/+/, '');
+
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '\\' && i + 1 < glob.length) {
+            source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+    }
+
+    // A pattern naming a directory also owns everything inside it; one whose last segment
+    // has a wildcard (`docs/*`) only matches entries at that level, not their subtrees
+    const lastSegment = glob.substring(glob.lastIndexOf('/') + 1);
+    const suffix = dirOnly ? '/.*' : /[*?]/.test(lastSegment.replace(/\\./g, '')) ? '' : '(?:/.*)?';
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${suffix}$`);
+}
+
+export class CodeOwners {
+    private constructor(readonly source: string, private readonly rules: CodeOwnersRule[]) {}
+
+    /**
+     * Parses CODEOWNERS content. Supports GitLab sections (`[Section]`, `^[Optional][2] @default`),
+     * whose rules are evaluated independently and whose default owners apply to rules without owners.
+     */
+    static parse(content: string, source = 'CODEOWNERS'): CodeOwners {
+        const rules: CodeOwnersRule[] = [];
+        let section: string | undefined;
+        let sectionOwners: string[] = [];
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const header = line.match(/^\^?\[([^\]]+)\](?:\[\d+\])?\s*(.*)$/);
+            if (header) {
+                section = header[1].trim();
+                sectionOwners = header[2].split(/\s+/).filter(token => token && !token.startsWith('#'));
+                continue;
+            }
+
+            // Split on unescaped whitespace; "\ " is a literal space in a path
+            const tokens = line.match(/(?:\\.|[^\s\\])+/g) || [];
+            const commentIndex = tokens.findIndex(token => token.startsWith('#'));
+            const [pattern, ...owners] = commentIndex >= 0 ? tokens.slice(0, commentIndex) : tokens;
+            if (!pattern) {
+                continue;
+            }
+
+            rules.push({
+                pattern,
+                regex: patternToRegExp(pattern.replace(/^\\#/, '#')),
+                owners: owners.length > 0 ? owners : section ? sectionOwners : [],
+                section
+            });
+        }
+
+        return new CodeOwners(source, rules);
+    }
+
+    /** Owners of a file: the last matching rule wins, separately for each GitLab section. */
+    getOwners(filePath: string): string[] {
+        const normalized = filePath.replace(/\\/g, '/');
+        const lastMatch = new Map<string | undefined, CodeOwnersRule>();
+        for (const rule of this.rules) {
+            if (rule.regex.test(normalized)) {
+                lastMatch.set(rule.section?.toLowerCase(), rule);
+            }
+        }
+        return [...new Set([...lastMatch.values()].flatMap(rule => rule.owners))];
+    }
+}
+
+export function loadCodeOwners(repoRoot: string, locations: string[] = CODEOWNERS_PATHS): CodeOwners | undefined {
+    for (const location of locations) {
+        try {
+            return CodeOwners.parse(fs.readFileSync(path.join(repoRoot, location), 'utf8'), location);
+        } catch {
+            // Try the next location
+        }
+    }
+    return undefined;
+}
+
+/** Reviewer handles for the forge CLIs: "@org/team" → "org/team", "@user" → "user"; emails are kept. */
+export function ownersToReviewers(owners: string[]): string[] {
+    return owners.map(owner => owner.replace(/^@+/, ''));
+}
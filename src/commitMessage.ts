@@ -0,0 +1,117 @@
+// Commit messages built from templates, with Conventional Commit headers,
+// trailers and a small commitlint-style rule set.
+
+export const DEFAULT_COMMIT_TEMPLATE = '${header}\n\n${description}';
+export const DEFAULT_COMMIT_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'];
+
+/** Per-bucket commit options, set when the bucket is created or with "Edit Commit Message". */
+export interface BucketCommitOptions {
+    type?: string;
+    scope?: string;
+    breaking?: boolean;
+    template?: string;     // overrides multiPR.commit.template
+    coAuthors?: string[];  // "Name <email>", added to multiPR.commit.coAuthors
+}
+
+export interface CommitMessageInput {
+    bucketName: string;
+    title: string;
+    description: string;
+    files: string[];
+    ticket: string;
+    options: BucketCommitOptions;
+}
+
+export interface CommitMessageSettings {
+    template: string;
+    coAuthors: string[];
+    issueTrailer: string;  // e.g. "Refs" or "Closes"; empty for none
+}
+
+export interface CommitLintRules {
+    conventional: boolean;   // require "type(scope): subject" headers
+    types: string[];
+    scopes: string[];        // allowed scopes; empty allows any
+    headerMaxLength: number; // 0 disables the check
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^()]+)\))?(!)?: (.+)$/;
+
+/** "type(scope)!: title", or just the title when the bucket has no type. */
+export function buildHeader(title: string, options: BucketCommitOptions): string {
+    if (!options.type) {
+        return title;
+    }
+    return `${options.type}${options.scope ? `(${options.scope})` : ''}${options.breaking ? '!' : ''}: ${title}`;
+}
+
+export function buildCommitMessage(input: CommitMessageInput, settings: CommitMessageSettings): string {
+    const values: Record<string, string> = {
+        header: buildHeader(input.title, input.options),
+        type: input.options.type || '',
+        scope: input.options.scope || '',
+        title: input.title,
+        description: input.description,
+        bucket: input.bucketName,
+        ticket: input.ticket,
+        files: input.files.map(file => `- ${file}`).join('\n')
+    };
+
+    const template = input.options.template || settings.template || DEFAULT_COMMIT_TEMPLATE;
+    const body = template
+        .replace(/\\n/g, '\n')  // templates typed into a one-line settings field
+        .replace(/\$\{(\w+)\}/g, (match, name: string) => Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match)
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+    const trailers: string[] = [];
+    if (input.options.breaking && !/^BREAKING CHANGE:/m.test(body)) {
+        trailers.push(`BREAKING CHANGE: ${input.description.split('\n')[0] || input.title}`);
+    }
+    if (settings.issueTrailer && input.ticket) {
+        trailers.push(`${settings.issueTrailer}: ${input.ticket}`);
+    }
+    for (const coAuthor of new Set([...settings.coAuthors, ...(input.options.coAuthors || [])])) {
+        trailers.push(`Co-authored-by: ${coAuthor}`);
+    }
+
+    return trailers.length > 0 ? `${body}\n\n${trailers.join('\n')}` : body;
+}
+
+/** Returns the rule violations of a message, in the style of commitlint's messages. */
+export function lintCommitMessage(message: string, rules: CommitLintRules): string[] {
+    const problems: string[] = [];
+    const [header, second] = message.split('\n');
+
+    if (!header || header.trim().length === 0) {
+        return ['header may not be empty [header-empty]'];
+    }
+    if (rules.headerMaxLength > 0 && header.length > rules.headerMaxLength) {
+        problems.push(`header must not be longer than ${rules.headerMaxLength} characters, current length is ${header.length} [header-max-length]`);
+    }
+    if (second !== undefined && second.trim().length > 0) {
+        problems.push('body must have leading blank line [body-leading-blank]');
+    }
+
+    if (rules.conventional) {
+        const match = header.match(HEADER_PATTERN);
+        if (!match) {
+            problems.push('header must look like "type(scope): subject" [header-format]');
+            return problems;
+        }
+
+        const [, type, scope, , subject] = match;
+        if (rules.types.length > 0 && !rules.types.includes(type)) {
+            problems.push(`type must be one of [${rules.types.join(', ')}] [type-enum]`);
+        }
+        if (scope && rules.scopes.length > 0 && !rules.scopes.includes(scope)) {
+            problems.push(`scope must be one of [${rules.scopes.join(', ')}] [scope-enum]`);
+        }
+        if (subject.trim().endsWith('.')) {
+            problems.push('subject may not end with full stop [subject-full-stop]');
+        }
+    }
+
+    return problems;
+}
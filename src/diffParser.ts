@@ -0,0 +1,222 @@
+// Parsing and re-assembly of unified diffs so a single file's changes can be
+// split into hunks (or line ranges inside a hunk) and staged independently.
+
+export interface DiffHunk {
+    id: string;          // `${filePath}@${index}` - stable while the diff is unchanged
+    filePath: string;
+    index: number;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    section: string;     // text after the closing @@ (usually the enclosing function)
+    lines: string[];     // body lines, each prefixed with ' ', '+', '-' or '\'
+    selectedLines?: number[]; // indices into `lines` of the changed lines kept; undefined = whole hunk
+}
+
+export interface FileDiff {
+    filePath: string;
+    header: string[];    // "diff --git", index, ---/+++ lines
+    hunks: DiffHunk[];
+    binary: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+const ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+/** Undoes git's C-style quoting of paths with quotes, control or non-ASCII characters ("caf\303\251.txt"). */
+export function unquoteGitPath(text: string): string {
+    if (text.length < 2 || !text.startsWith('"') || !text.endsWith('"')) {
+        return text;
+    }
+
+    const bytes: number[] = [];
+    const chars = Array.from(text.slice(1, -1));
+    for (let i = 0; i < chars.length; i++) {
+        if (chars[i] !== '\\') {
+            bytes.push(...Buffer.from(chars[i], 'utf8'));
+        } else if (/^[0-7]{3}$/.test(chars.slice(i + 1, i + 4).join(''))) {
+            // Each octal escape is one byte of the UTF-8 encoding
+            bytes.push(parseInt(chars.slice(i + 1, i + 4).join(''), 8));
+            i += 3;
+        } else {
+            i++;
+            bytes.push(ESCAPES[chars[i]] ?? chars[i].charCodeAt(0));
+        }
+    }
+    return Buffer.from(bytes).toString('utf8');
+}
+
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    let current: FileDiff | undefined;
+    let hunk: DiffHunk | undefined;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            const match = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+            const quoted = line.match(/ ("b\/(?:[^"\\]|\\.)*")$/);
+            current = {
+                filePath: match ? match[2] : quoted ? unquoteGitPath(quoted[1]).substring('b/'.length) : line.substring('diff --git '.length),
+                header: [line],
+                hunks: [],
+                binary: false
+            };
+            hunk = undefined;
+            files.push(current);
+            continue;
+        }
+        if (!current) {
+            continue;
+        }
+
+        const header = line.match(HUNK_HEADER);
+        if (header) {
+            hunk = {
+                id: `${current.filePath}@${current.hunks.length}`,
+                filePath: current.filePath,
+                index: current.hunks.length,
+                oldStart: parseInt(header[1], 10),
+                oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+                newStart: parseInt(header[3], 10),
+                newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+                section: header[5] || '',
+                lines: []
+            };
+            current.hunks.push(hunk);
+            continue;
+        }
+
+        if (hunk) {
+            if (line.length > 0 && ' +-\\'.includes(line[0])) {
+                hunk.lines.push(line);
+            }
+        } else {
+            if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+                current.binary = true;
+            }
+            if (line.startsWith('+++ b/') || line.startsWith('+++ "b/')) {
+                // Names with spaces get a trailing tab
+                current.filePath = unquoteGitPath(line.substring('+++ '.length).replace(/\t$/, '')).substring('b/'.length);
+            }
+            current.header.push(line);
+        }
+    }
+
+    return files;
+}
+
+export function getChangeLineIndices(hunk: DiffHunk): number[] {
+    const indices: number[] = [];
+    hunk.lines.forEach((line, i) => {
+        if (line.startsWith('+') || line.startsWith('-')) {
+            indices.push(i);
+        }
+    });
+    return indices;
+}
+
+export function getSelectedLineIndices(hunk: DiffHunk): number[] {
+    return hunk.selectedLines ? [...hunk.selectedLines] : getChangeLineIndices(hunk);
+}
+
+/**
+ * Returns a copy of `hunk` restricted to the given changed lines. The result is
+ * always relative to the original (pre-image) file, so pieces of one hunk can be
+ * applied independently in different buckets.
+ */
+export function selectHunkLines(hunk: DiffHunk, indices: Iterable<number>): DiffHunk {
+    const all = getChangeLineIndices(hunk);
+    const wanted = new Set([...indices].filter(i => all.includes(i)));
+    return {
+        ...hunk,
+        selectedLines: wanted.size === all.length ? undefined : [...wanted].sort((a, b) => a - b)
+    };
+}
+
+/** Maps an index into `hunk.lines` to its line number in the working tree (new) file. */
+export function getNewLineNumber(hunk: DiffHunk, lineIndex: number): number {
+    let lineNumber = hunk.newStart;
+    for (let i = 0; i < lineIndex; i++) {
+        const line = hunk.lines[i];
+        if (line.startsWith(' ') || line.startsWith('+')) {
+            lineNumber++;
+        }
+    }
+    return lineNumber;
+}
+
+function renderHunk(hunk: DiffHunk, newStart: number): { lines: string[]; delta: number } {
+    const selected = new Set(getSelectedLineIndices(hunk));
+    const body: string[] = [];
+    let oldLines = 0;
+    let newLines = 0;
+    let keptPrevious = true;
+
+    hunk.lines.forEach((line, i) => {
+        const marker = line[0];
+        if (marker === '\\') {
+            // "No newline at end of file" belongs to whichever line precedes it
+            if (keptPrevious) {
+                body.push(line);
+            }
+            return;
+        }
+        if (marker === '+') {
+            keptPrevious = selected.has(i);
+            if (keptPrevious) {
+                body.push(line);
+                newLines++;
+            }
+            return;
+        }
+        keptPrevious = true;
+        oldLines++;
+        if (marker === '-' && selected.has(i)) {
+            body.push(line);
+        } else {
+            // Context, or an unselected removal that stays in the file
+            body.push(' ' + line.substring(1));
+            newLines++;
+        }
+    });
+
+    const header = `@@ -${hunk.oldStart},${oldLines} +${newStart},${newLines} @@${hunk.section ? ' ' + hunk.section : ''}`;
+    return { lines: [header, ...body], delta: newLines - oldLines };
+}
+
+/** Builds a patch for `git apply` containing only the given hunks (or hunk pieces) of one file. */
+export function buildPatch(fileDiff: FileDiff, hunks: DiffHunk[]): string {
+    const ordered = [...hunks].sort((a, b) => a.oldStart - b.oldStart);
+    const lines = [...fileDiff.header];
+    let offset = 0;
+
+    for (const hunk of ordered) {
+        const rendered = renderHunk(hunk, hunk.oldStart + offset);
+        lines.push(...rendered.lines);
+        offset += rendered.delta;
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+export function describeHunk(hunk: DiffHunk): string {
+    const selected = new Set(getSelectedLineIndices(hunk));
+    let added = 0;
+    let removed = 0;
+    hunk.lines.forEach((line, i) => {
+        if (!selected.has(i)) {
+            return;
+        }
+        if (line.startsWith('+')) {
+            added++;
+        } else if (line.startsWith('-')) {
+            removed++;
+        }
+    });
+
+    const end = hunk.newStart + Math.max(hunk.newLines - 1, 0);
+    const range = end > hunk.newStart ? `Lines ${hunk.newStart}-${end}` : `Line ${hunk.newStart}`;
+    return `${range} (+${added} -${removed})${hunk.selectedLines ? ' partial' : ''}`;
+}
@@ -1,12 +1,54 @@
 import * as vscode from 'vscode';
-import { MultiPRTreeProvider, PRBucket } from './treeViewProvider';
-import { GitManager } from './gitOperations';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { BucketTarget, HunkItem, MultiPRTreeProvider, PRBucket, SplitRange, StackItem, TrackedPRItem } from './treeViewProvider';
+import { BranchCommits, GitManager } from './gitOperations';
+import { MergeMethod, MetadataField, MultiPRApi, OpenPullRequest, PullRequestMetadata } from './providers/forgeProvider';
+import { ProviderRegistry } from './providers/registry';
+import { RunJournal } from './runJournal';
+import { CherryPickConflictError, journalUnfinishedRuns, LinkedUpdateMode, PRPipeline, STAGE_LABELS } from './prPipeline';
+import { StackLander } from './landStack';
+import { PullRequestTracker } from './prTracker';
+import { ProcessRunner } from './processRunner';
+import { RestackResult, StackRestacker } from './restack';
+import { CreatedStack, StackEntry, StackStore } from './stackStore';
+import { DependencyCycleError, renderDependencyGraph } from './bucketGraph';
+import { DEFAULT_BRANCH_TEMPLATE, getUnknownTokens, slugify } from './branchNames';
+import { BucketCommitOptions, DEFAULT_COMMIT_TEMPLATE, DEFAULT_COMMIT_TYPES } from './commitMessage';
+import { DiffHunk, getNewLineNumber, getSelectedLineIndices, selectHunkLines } from './diffParser';
 
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<MultiPRApi> {
     console.log('🚀 Multi-PR Manager is now active!');
 
-    const treeDataProvider = new MultiPRTreeProvider();
-    const gitManager = new GitManager();
+    // Every git and forge CLI command goes through the runner and is logged to this channel
+    const runner = new ProcessRunner(vscode.window.createOutputChannel('Multi-PR Manager'));
+    const providers = new ProviderRegistry(runner);
+    const gitManager = new GitManager(providers, runner);
+    const stackStore = new StackStore(context.workspaceState, vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '');
+    const prTracker = new PullRequestTracker(gitManager, stackStore);
+    const treeDataProvider = new MultiPRTreeProvider(runner, context.workspaceState, prTracker);
+
+    // Parent buckets of a bucket, in the order they were picked
+    const getDependencies = (bucket: PRBucket): PRBucket[] => {
+        const byName = new Map(treeDataProvider.getBuckets().map(b => [b.name, b]));
+        return (bucket.dependsOn || []).map(name => byName.get(name)).filter((b): b is PRBucket => !!b);
+    };
+
+    // Base branch shown in previews; the pipeline resolves the real one when the bucket runs
+    const describeBaseBranch = (bucket: PRBucket, defaultBaseBranch: string): string => {
+        if (bucket.target) {
+            return bucket.target.baseBranch;
+        }
+        const parents = getDependencies(bucket);
+        if (parents.length === 0) {
+            return defaultBaseBranch;
+        }
+        if (parents.length === 1) {
+            return parents[0].branchName || `branch of ${parents[0].name}`;
+        }
+        return `integration branch merging ${parents.map(p => p.branchName || p.name).join(' + ')}`;
+    };
 
     // Register tree view with drag & drop support
     const treeView = vscode.window.createTreeView('multiPRView', {
@@ -21,6 +63,65 @@ export async function activate(context: vscode.ExtensionContext) {
         treeDataProvider.loadGitChanges();
     }, 1000);
 
+    // Reload saved buckets when the user switches branches
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const headWatcher = workspaceFolder
+        ? vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, '.git/HEAD'))
+        : undefined;
+    headWatcher?.onDidChange(() => treeDataProvider.loadGitChanges());
+
+    // Poll the status of created PRs while the view is on screen
+    const updatePolling = () => {
+        if (treeView.visible) {
+            prTracker.startPolling(vscode.workspace.getConfiguration('multiPR').get<number>('statusPollSeconds', 120));
+        } else {
+            prTracker.stopPolling();
+        }
+    };
+    updatePolling();
+    const visibilityListener = treeView.onDidChangeVisibility(updatePolling);
+    const pollSettingListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('multiPR.statusPollSeconds')) {
+            updatePolling();
+        }
+    });
+
+    // Conventional Commit type, scope and breaking-change pickers. Returns undefined when cancelled.
+    const pickCommitOptions = async (current: BucketCommitOptions = {}): Promise<BucketCommitOptions | undefined> => {
+        const config = vscode.workspace.getConfiguration('multiPR.commit');
+        const noType = '$(circle-slash) No type';
+        const type = await vscode.window.showQuickPick([noType, ...config.get<string[]>('types', DEFAULT_COMMIT_TYPES)], {
+            placeHolder: `Conventional Commit type${current.type ? ` (current: ${current.type})` : ''}`
+        });
+        if (type === undefined) { return undefined; }
+        if (type === noType) {
+            return { ...current, type: undefined, scope: undefined, breaking: undefined };
+        }
+
+        const noScope = '$(circle-slash) No scope';
+        const customScope = '$(edit) Enter a scope...';
+        let scope = await vscode.window.showQuickPick([noScope, ...config.get<string[]>('scopes', []), customScope], {
+            placeHolder: `Scope for ${type}${current.scope ? ` (current: ${current.scope})` : ''}`
+        });
+        if (scope === undefined) { return undefined; }
+        if (scope === customScope) {
+            scope = await vscode.window.showInputBox({ prompt: 'Commit scope', value: current.scope });
+            if (scope === undefined) { return undefined; }
+        }
+
+        const breaking = await vscode.window.showQuickPick(['No', 'Yes, this is a breaking change'], {
+            placeHolder: 'Breaking change?'
+        });
+        if (breaking === undefined) { return undefined; }
+
+        return {
+            ...current,
+            type,
+            scope: scope === noScope || !scope.trim() ? undefined : scope.trim(),
+            breaking: breaking !== 'No' || undefined
+        };
+    };
+
     // Create Bucket Command
     const createBucketCommand = vscode.commands.registerCommand('multiPR.createBucket', async () => {
         const bucketName = await vscode.window.showInputBox({
@@ -50,82 +151,360 @@ export async function activate(context: vscode.ExtensionContext) {
             });
 
             if (title) {
-                const description = await vscode.window.showInputBox({
+                // Seed the description from the repository's PR template when there is one
+                const templates = await gitManager.getPullRequestTemplates();
+                let template: { label: string; relativePath?: string; content?: string } | undefined = { label: 'No template' };
+                if (templates.length > 0) {
+                    template = await vscode.window.showQuickPick([
+                        ...templates.map(t => ({ label: t.name, description: t.relativePath, relativePath: t.relativePath, content: t.content })),
+                        { label: 'No template', description: 'Enter a short description instead' }
+                    ], { placeHolder: 'Select a PR description template' });
+                    if (!template) { return; }
+                }
+
+                const description = template.content ?? await vscode.window.showInputBox({
                     prompt: 'Enter PR description (optional)',
                     placeHolder: 'Describe the changes in this PR'
                 });
 
-                treeDataProvider.createBucket(bucketName.trim(), title.trim(), description?.trim() || '');
-                vscode.window.showInformationMessage(`✅ Created bucket: ${bucketName}`);
+                const commit = vscode.workspace.getConfiguration('multiPR.commit').get<boolean>('conventional', false)
+                    ? await pickCommitOptions()
+                    : undefined;
+
+                treeDataProvider.createBucket(bucketName.trim(), title.trim(), description?.trim() || '', commit, template.relativePath);
+
+                if (template.relativePath) {
+                    const action = await vscode.window.showInformationMessage(`✅ Created bucket: ${bucketName} with template ${template.label}`, 'Edit Description');
+                    if (action === 'Edit Description') {
+                        vscode.commands.executeCommand('multiPR.editDescription', treeDataProvider.getBuckets().find(b => b.name === bucketName.trim()));
+                    }
+                } else {
+                    vscode.window.showInformationMessage(`✅ Created bucket: ${bucketName}`);
+                }
             }
         }
     });
 
-    // Process All Buckets Command
-    const processBucketsCommand = vscode.commands.registerCommand('multiPR.processAll', async () => {
-        // Use dependency-aware ordering if available
-        const buckets = (treeDataProvider.getBucketsInOrder?.() || treeDataProvider.getBuckets())
-            .filter(b => b.files.length > 0);
+    // Checks that the forge provider for the current repo can open PRs. Returns whether to fall
+    // back to prefilled PR links, or undefined when the user cancelled.
+    const prepareProvider = async (): Promise<boolean | undefined> => {
+        const provider = await gitManager.getProvider();
+        if (!provider) {
+            vscode.window.showWarningMessage('Unknown repository type. Set "multiPR.provider" or install an extension that adds a provider for this forge.');
+            return undefined;
+        }
 
-        if (buckets.length === 0) {
-            vscode.window.showWarningMessage('❌ No buckets with files found. Create buckets and drag files into them first.');
+        const status = await provider.checkAuth(await gitManager.getForgeContext());
+        if (status.automatic || !status.problem) {
+            return false;
+        }
+
+        const actions = status.installUrl ? ['Install', 'Use Manual Method'] : ['Use Manual Method'];
+        const choice = await vscode.window.showErrorMessage(status.problem, ...actions);
+
+        if (choice === 'Install') {
+            vscode.env.openExternal(vscode.Uri.parse(status.installUrl!));
+            return undefined;
+        }
+        return choice === 'Use Manual Method' ? true : undefined;
+    };
+
+    // Keeps the PRs of a finished run after their buckets are cleared, for restacking.
+    // PRs of earlier runs that linked buckets updated stay in their own stack.
+    const recordStack = async (buckets: PRBucket[], sourceBranch: string, defaultBaseBranch: string): Promise<CreatedStack | undefined> => {
+        const stored = new Set(stackStore.getStacks().flatMap(stack => stack.entries.map(e => e.branchName)));
+        const recorded = buckets.filter(b => b.branchName && !(b.target && stored.has(b.target.branchName)));
+        const names = new Set(recorded.map(b => b.name));
+        const entries: StackEntry[] = await Promise.all(recorded.map(async b => {
+            const dependsOn = (b.dependsOn || []).filter(name => names.has(name));
+            return {
+                bucketName: b.name,
+                title: b.title,
+                branchName: b.branchName!,
+                baseBranch: b.pipeline?.baseBranch || defaultBaseBranch,
+                dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+                // A new bucket's branch starts at its base; a linked branch may have more commits below its own
+                baseSha: b.target ? undefined
+                    : b.pipeline?.baseSha || (b.pipeline?.commitSha ? await gitManager.resolveCommit(`${b.pipeline.commitSha}^`) : undefined),
+                prUrl: b.pipeline?.prUrl,
+                manual: b.pipeline?.manual
+            };
+        }));
+        if (entries.length === 0) {
+            return undefined;
+        }
+        const stack: CreatedStack = { id: Date.now().toString(36), createdAt: new Date().toISOString(), sourceBranch, entries };
+        await stackStore.saveStack(stack);
+        return stack;
+    };
+
+    // Rewrites the stack table in the description of every opened PR of a stack
+    const updateStackTables = async (stack: CreatedStack): Promise<void> => {
+        const opened = stack.entries.filter(e => e.prUrl && !e.manual);
+        if (stack.entries.length < 2 || opened.length === 0) {
             return;
         }
 
-        // Check CLI availability based on repo type
+        const failures: string[] = [];
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Updating stack tables in PR descriptions'
+        }, async () => {
+            for (const entry of opened) {
+                try {
+                    await gitManager.updateStackSection(entry.prUrl!, stack.entries, entry.bucketName);
+                } catch (error) {
+                    failures.push(`${entry.bucketName}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        });
+
+        if (failures.length > 0) {
+            vscode.window.showWarningMessage(`⚠️ Could not update the stack table of ${failures.length} PR(s):\n${failures.join('\n')}`);
+        }
+    };
+
+    // A bucket's cherry-pick stopped on a conflict: resolve it in the worktree, or abort and start the bucket's branch over
+    const showCherryPickPaused = async (error: CherryPickConflictError): Promise<void> => {
+        const choice = await vscode.window.showWarningMessage(
+            `⏸️ ${error.message}. Resolve the conflicts, run "git cherry-pick --continue" in the worktree, then run "Resume PR Creation".`,
+            'Open Worktree',
+            'Abort Cherry-Pick'
+        );
+        if (choice === 'Open Worktree') {
+            vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(error.worktreePath), { forceNewWindow: true });
+        } else if (choice === 'Abort Cherry-Pick') {
+            const bucket = treeDataProvider.getBuckets().find(b => b.name === error.bucketName);
+            await gitManager.abortCherryPick({ branchName: bucket?.branchName || '', path: error.worktreePath });
+            if (bucket?.pipeline) {
+                bucket.pipeline.cherryPick = undefined;
+                treeDataProvider.refresh();
+            }
+            vscode.window.showInformationMessage(`↩️ Aborted the cherry-pick. ${error.bucketName} will pick its commits again on "Resume PR Creation".`);
+        }
+    };
+
+    // Runs every bucket through the PR pipeline in dependency order, continuing each
+    // from its last completed step. Buckets whose PR is already open are skipped.
+    const runBuckets = async (buckets: PRBucket[], manual: boolean): Promise<void> => {
         const config = vscode.workspace.getConfiguration('multiPR');
-        const useGitHubCLI = config.get<boolean>('useGitHubCLI', true);
-        const repoType = gitManager.getRepoType();
-
-        if (useGitHubCLI && repoType === 'github') {
-            try {
-                await gitManager.checkCLI();
-            } catch (error) {
-                const installGH = await vscode.window.showErrorMessage(
-                    'GitHub CLI not found. Install it to create PRs without tokens.',
-                    'Install GitHub CLI',
-                    'Use Manual Method'
-                );
-
-                if (installGH === 'Install GitHub CLI') {
-                    vscode.env.openExternal(vscode.Uri.parse('https://cli.github.com/'));
-                    return;
-                } else if (installGH === 'Use Manual Method') {
-                    // Continue with manual method
+        const defaultBaseBranch = config.get<string>('defaultBaseBranch', 'main');
+        const forgeName = (await gitManager.getProvider())?.displayName || 'repository';
+        const journal = new RunJournal(await gitManager.getCurrentBranch().catch(() => ''));
+        const snapshot = new Map(buckets.map(b => [b.name, { branchName: b.branchName, pipeline: b.pipeline && { ...b.pipeline } }]));
+        let failed: { bucketName: string; error: string } | undefined;
+        let conflict: CherryPickConflictError | undefined;
+        let cancelledAt: string | undefined;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Creating Multiple PRs',
+            cancellable: true
+        }, (progress, token) => runner.withCancellation(token, async () => {
+            const totalSteps = buckets.length * 5; // branch, stage, commit, push, PR
+            const pipeline = new PRPipeline(gitManager, journal, {
+                manual,
+                updateMode: config.get<LinkedUpdateMode>('linkedBranchUpdate', 'commit'),
+                defaultBaseBranch,
+                getDependencies,
+                getStack: () => buckets.map(b => ({
+                    bucketName: b.name,
+                    title: b.title,
+                    branchName: b.branchName,
+                    prUrl: b.pipeline?.prUrl || b.target?.prUrl,
+                    manual: b.pipeline?.prUrl ? b.pipeline.manual : undefined
+                })),
+                onStateChange: () => treeDataProvider.refresh(),
+                report: message => progress.report({ increment: 100 / totalSteps, message })
+            });
+
+            for (const [position, bucket] of buckets.entries()) {
+                if (token.isCancellationRequested) {
+                    cancelledAt = bucket.name;
+                    break;
+                }
+                try {
+                    await pipeline.runBucket(bucket, position + 1);
+                } catch (error) {
+                    // Later buckets may depend on this one: stop the run here
+                    if (token.isCancellationRequested) {
+                        // The running command was killed; the bucket goes on from its last completed step
+                        cancelledAt = bucket.name;
+                    } else if (error instanceof CherryPickConflictError) {
+                        conflict = error;
+                    } else {
+                        failed = { bucketName: bucket.name, error: String(error) };
+                    }
+                    break;
+                }
+            }
+        }));
+
+        if (cancelledAt) {
+            vscode.window.showWarningMessage(`⏹️ PR creation cancelled at ${cancelledAt}. Run "Resume PR Creation" to continue.`);
+            return;
+        }
+
+        if (conflict) {
+            await showCherryPickPaused(conflict);
+            return;
+        }
+
+        if (failed) {
+            const choice = journal.isEmpty() ? undefined : await vscode.window.showErrorMessage(
+                `❌ ${failed.bucketName} failed: ${failed.error}`,
+                { modal: true, detail: `Completed in this run before the failure:\n${journal.describe()}` },
+                'Roll Back This Run',
+                'Keep Progress'
+            );
+
+            if (choice === 'Roll Back This Run') {
+                const problems = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Rolling back Multi-PR run'
+                }, () => gitManager.rollbackRun(journal));
+
+                // Put touched buckets back to where they were before this run
+                for (const bucket of buckets.filter(b => journal.getTouchedBuckets().includes(b.name))) {
+                    const before = snapshot.get(bucket.name);
+                    bucket.branchName = before?.branchName;
+                    bucket.pipeline = before?.pipeline;
+                }
+                treeDataProvider.refresh();
+
+                if (problems.length > 0) {
+                    vscode.window.showErrorMessage(`⚠️ Rollback incomplete:\n${problems.join('\n')}`);
                 } else {
-                    return;
+                    vscode.window.showInformationMessage('↩️ Rolled back all branches and PRs from this run.');
                 }
+                return;
+            }
+
+            vscode.window.showErrorMessage(`❌ ${failed.bucketName} failed: ${failed.error}. Fix the problem and run "Resume PR Creation" to continue.`);
+            return;
+        }
+
+        // Show results for the buckets this run opened a PR for, not those done in earlier runs
+        const opened = buckets.filter(b => snapshot.get(b.name)?.pipeline?.stage !== 'pr-opened');
+        const successCount = opened.length;
+        const hasManualPRs = opened.some(b => b.pipeline?.manual);
+
+        const message = !hasManualPRs ?
+            `✅ Successfully created ${successCount} PRs on ${forgeName}!` :
+            `✅ Created ${successCount} branches! Click to open ${forgeName} and create PRs.`;
+
+        const urls = opened.map(b => b.pipeline?.prUrl).filter((url): url is string => !!url);
+        const stack = await recordStack(buckets, journal.originalBranch, defaultBaseBranch);
+        treeDataProvider.removeBuckets(buckets.map(b => b.name));
+        if (stack) {
+            // PRs opened early in the run list their later siblings as not opened yet
+            await updateStackTables(stack);
+        }
+
+        const action = await vscode.window.showInformationMessage(message, `Open ${forgeName}`);
+
+        if (action) {
+            // Nothing to link to without a PR URL: fall back to the repository on the forge
+            if (urls.length === 0) {
+                urls.push(await gitManager.getRepositoryUrl().catch(() => ''));
             }
-        } else if (repoType === 'bitbucket') {
-            // Bitbucket will use manual PR creation URLs
-            try {
-                await gitManager.checkCLI();
-            } catch (error) {
-                // Continue - Bitbucket doesn't require CLI
+            for (const url of urls.filter(Boolean)) {
+                vscode.env.openExternal(vscode.Uri.parse(url));
             }
-        } else if (repoType === 'unknown') {
-            vscode.window.showWarningMessage('Unknown repository type. Only GitHub and Bitbucket are supported.');
+        }
+    };
+
+    // Process All Buckets Command
+    const processBucketsCommand = vscode.commands.registerCommand('multiPR.processAll', async () => {
+        // Use dependency-aware ordering if available
+        const buckets = (treeDataProvider.getBucketsInOrder?.() || treeDataProvider.getBuckets())
+            .filter(b => b.files.some(f => !f.stale) || b.commits?.some(c => !c.stale));
+
+        if (buckets.length === 0) {
+            vscode.window.showWarningMessage('❌ No buckets with files or commits found. Create buckets and drag files or commits into them first.');
+            return;
+        }
+
+        // Check that the forge provider can open PRs
+        const manual = await prepareProvider();
+        if (manual === undefined) {
             return;
         }
 
+        const config = vscode.workspace.getConfiguration('multiPR');
+        const forgeName = (await gitManager.getProvider())!.displayName;
+
+        // Offer to continue an interrupted run rather than creating new branches
+        let resume = false;
+        if (buckets.some(b => b.pipeline && b.pipeline.stage !== 'pending' && b.pipeline.stage !== 'pr-opened')) {
+            const choice = await vscode.window.showWarningMessage(
+                'Some buckets have an unfinished PR run. Resume it or start those buckets over with new branches?',
+                'Resume',
+                'Start Over'
+            );
+            if (!choice) { return; }
+            resume = choice === 'Resume';
+        }
+
         // Build a preview of what will happen per bucket
         const defaultBaseBranch = config.get<string>('defaultBaseBranch', 'main');
-        const bucketByName: Record<string, PRBucket> = Object.fromEntries(buckets.map(b => [b.name, b]));
         const previewLines: string[] = [];
+        const invalidCommits: string[] = [];
         previewLines.push(`# Multi-PR Plan Preview`);
         previewLines.push('');
-        previewLines.push(`Repository type: ${repoType}`);
+        previewLines.push(`Forge: ${forgeName}`);
         previewLines.push(`Default base branch: ${defaultBaseBranch}`);
         previewLines.push('');
-        for (const b of buckets) {
-            const dependsOn: string | undefined = (b as any)?.dependsOn;
-            const baseBranch = dependsOn ? (bucketByName[dependsOn]?.branchName || defaultBaseBranch) : defaultBaseBranch;
+        for (const [position, b] of buckets.entries()) {
             previewLines.push(`## ${b.name}`);
-            previewLines.push(`- Base branch: ${baseBranch}`);
-            if (dependsOn) previewLines.push(`- Depends on: ${dependsOn}`);
+            if (b.pipeline?.stage === 'pr-opened') {
+                previewLines.push(`- Already created: ${b.pipeline.prUrl || b.branchName}`);
+                previewLines.push('');
+                continue;
+            }
+            previewLines.push(`- Base branch: ${describeBaseBranch(b, defaultBaseBranch)}`);
+            if (b.dependsOn?.length) previewLines.push(`- Depends on: ${b.dependsOn.join(', ')}`);
+            if (resume && b.pipeline && b.pipeline.stage !== 'pending') {
+                previewLines.push(`- Resumes after: ${STAGE_LABELS[b.pipeline.stage]} (${b.branchName})`);
+            } else if (b.target) {
+                const mode = config.get<LinkedUpdateMode>('linkedBranchUpdate', 'commit') === 'amend' ? 'amends the last commit, force-pushed with lease' : 'adds a follow-up commit';
+                previewLines.push(`- Updates: ${b.target.prUrl || `branch ${b.target.branchName} (a PR is opened for it)`}`);
+                previewLines.push(`- Branch: ${b.target.branchName} (${mode})`);
+            } else {
+                const branchName = await gitManager.generateBranchName(b, position + 1).catch(error => `⚠️ ${error instanceof Error ? error.message : error}`);
+                previewLines.push(`- Branch: ${branchName}`);
+            }
+            // Commits-only buckets keep the messages of their commits
+            const hasFiles = b.files.some(f => !f.stale);
+            if (hasFiles && (!b.pipeline || b.pipeline.stage === 'pending' || b.pipeline.stage === 'branched' || !resume)) {
+                const { message, problems } = await gitManager.prepareCommitMessage(b);
+                previewLines.push(`- Commit: ${message.split('\n')[0]}`);
+                for (const problem of problems) {
+                    previewLines.push(`  - ⚠️ ${problem}`);
+                }
+                if (problems.length > 0) {
+                    invalidCommits.push(b.name);
+                }
+            }
+            const prMetadata = await gitManager.getPullRequestMetadata(b);
+            for (const field of (await gitManager.getProvider())?.supportedMetadata || []) {
+                if (prMetadata[field] !== undefined) {
+                    previewLines.push(`- ${METADATA_LABELS[field]}: ${describeMetadata(prMetadata, field)}`);
+                }
+            }
+            if (b.commits?.length) {
+                previewLines.push(`- Commits cherry-picked (${b.commits.length}):`);
+                for (const c of b.commits) {
+                    previewLines.push(c.stale ? `  - ~~${c.sha.substring(0, 7)} ${c.subject}~~ (no longer on this branch, skipped)` : `  - ${c.sha.substring(0, 7)} ${c.subject}`);
+                }
+            }
             previewLines.push(`- Files (${b.files.length}):`);
             for (const f of b.files) {
-                previewLines.push(`  - ${f.path} (${f.status})`);
+                if (f.stale) {
+                    previewLines.push(`  - ~~${f.path}~~ (no longer changed, skipped)`);
+                    continue;
+                }
+                previewLines.push(`  - ${f.path} (${f.status}${f.hunks ? `, ${f.hunks.length} hunk(s)` : ''})`);
             }
             previewLines.push('');
         }
@@ -133,144 +512,148 @@ export async function activate(context: vscode.ExtensionContext) {
         const previewDoc = await vscode.workspace.openTextDocument({ language: 'markdown', content: previewLines.join('\n') });
         await vscode.window.showTextDocument(previewDoc, { preview: true });
 
+        if (invalidCommits.length > 0) {
+            vscode.window.showErrorMessage(`❌ Commit messages fail validation for: ${invalidCommits.join(', ')}. See the preview, then fix them with "Edit Commit Message".`);
+            return;
+        }
+
+        const toCreate = buckets.filter(b => b.pipeline?.stage !== 'pr-opened').length;
         const proceed = await vscode.window.showInformationMessage(
-            `🎯 Ready to create ${buckets.length} PRs. Preview opened. Proceed?`,
+            `🎯 Ready to create ${toCreate} PRs. Preview opened. Proceed?`,
             'Yes, Create PRs',
             'Cancel'
         );
 
         if (proceed !== 'Yes, Create PRs') return;
 
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: 'Creating Multiple PRs',
-            cancellable: false
-        }, async (progress) => {
-            const results = [];
-            const totalSteps = buckets.length * 4; // 4 steps per bucket
-            let currentStep = 0;
-
-            try {
-                const originalBranch = await gitManager.getCurrentBranch();
-                const defaultBaseBranch = config.get<string>('defaultBaseBranch', 'main');
-                const bucketByName: Record<string, PRBucket> = Object.fromEntries(buckets.map(b => [b.name, b]));
-
-                for (const bucket of buckets) {
-                    // Determine base branch: if this bucket depends on another, base off that bucket's branch
-                    const baseBranch = (bucket as any)?.dependsOn
-                        ? (bucketByName[(bucket as any).dependsOn]?.branchName || defaultBaseBranch)
-                        : defaultBaseBranch;
-                    // Step 1: Create branch
-                    progress.report({
-                        increment: (currentStep++ / totalSteps) * 100,
-                        message: `Creating branch for ${bucket.name}...`
-                    });
+        if (!resume) {
+            const unfinished = buckets.filter(b => b.pipeline?.stage !== 'pr-opened');
+            for (const bucket of unfinished.filter(b => b.pipeline?.cherryPick)) {
+                await gitManager.abortCherryPick({ branchName: bucket.branchName || '', path: bucket.pipeline!.cherryPick!.worktreePath });
+            }
 
-                    const branchName = await gitManager.createBranchForBucket(bucket.name, baseBranch);
-                    bucket.branchName = branchName;
+            // Undo what the unfinished runs did, since their branches are created and linked branches
+            // committed to again. A bucket that can't be undone keeps its progress and resumes instead.
+            const kept: string[] = [];
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Removing branches of the unfinished run'
+            }, async () => {
+                for (const bucket of unfinished) {
+                    const problems = await gitManager.rollbackRun(journalUnfinishedRuns([bucket]));
+                    if (problems.length > 0) {
+                        kept.push(`${bucket.name}: ${problems.join('; ')}`);
+                        continue;
+                    }
+                    bucket.pipeline = undefined;
+                    bucket.branchName = undefined;
+                }
+            });
+            treeDataProvider.refresh();
+            if (kept.length > 0) {
+                vscode.window.showWarningMessage(`⚠️ Could not undo the unfinished run of ${kept.length} bucket(s); they resume instead:\n${kept.join('\n')}`);
+            }
+        }
 
-                    // Step 2: Stage files
-                    progress.report({
-                        increment: (currentStep++ / totalSteps) * 100,
-                        message: `Staging files for ${bucket.name}...`
-                    });
+        await runBuckets(buckets, manual);
+    });
 
-                    await gitManager.stageFilesForBucket(bucket);
+    // Split Branch Command: bucket the committed changes of the current branch instead of the working tree's
+    const splitBranchCommand = vscode.commands.registerCommand('multiPR.splitBranch', async () => {
+        const defaultBaseBranch = vscode.workspace.getConfiguration('multiPR').get<string>('defaultBaseBranch', 'main');
+        const current = treeDataProvider.getSplitRange();
+
+        let branch: BranchCommits;
+        try {
+            branch = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Reading branch commits'
+            }, () => gitManager.getBranchCommits(defaultBaseBranch));
+        } catch (error) {
+            vscode.window.showErrorMessage(`❌ ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        const { mergeBase, commits } = branch;
+        if (commits.length === 0 && !current) {
+            vscode.window.showInformationMessage(`No commits on this branch since ${defaultBaseBranch}. Commit your work first, or split working-tree changes as usual.`);
+            return;
+        }
 
-                    // Step 3: Commit
-                    progress.report({
-                        increment: (currentStep++ / totalSteps) * 100,
-                        message: `Committing ${bucket.name}...`
+        type RangePick = vscode.QuickPickItem & { range?: SplitRange };
+        const items: RangePick[] = [];
+        if (current) {
+            items.push({ label: '$(close) Back to Working Tree Changes', description: `Stop splitting ${current.label}` });
+        }
+        if (commits.length > 0) {
+            const head = commits[commits.length - 1].sha;
+            const label = `${commits.length} commit(s) since ${defaultBaseBranch}`;
+            items.push({
+                label: `$(git-compare) All ${label}`,
+                description: `${mergeBase.substring(0, 7)}..${head.substring(0, 7)}`,
+                range: { from: mergeBase, to: head, label }
+            });
+        }
+        if (commits.length > 1) {
+            items.push({ label: 'Single commit', kind: vscode.QuickPickItemKind.Separator });
+            for (const commit of [...commits].reverse()) {
+                const parent = await gitManager.resolveCommit(`${commit.sha}^`);
+                if (parent) {
+                    items.push({
+                        label: `$(git-commit) ${commit.subject}`,
+                        description: commit.sha.substring(0, 7),
+                        range: { from: parent, to: commit.sha, label: `commit ${commit.sha.substring(0, 7)}` }
                     });
+                }
+            }
+        }
 
-                    await gitManager.commitBucket(bucket);
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Which committed changes should be split into PRs?',
+            matchOnDescription: true
+        });
+        if (!picked) { return; }
 
-                    // Step 4: Push
-                    progress.report({
-                        increment: (currentStep++ / totalSteps) * 100,
-                        message: `Pushing ${bucket.name}...`
-                    });
+        if (!picked.range) {
+            await treeDataProvider.setSplitRange(undefined);
+            vscode.window.showInformationMessage('📝 Back to splitting working-tree changes.');
+            return;
+        }
 
-                    await gitManager.pushBranch(branchName);
-
-                    // Create PR
-                    if (useGitHubCLI || gitManager.getRepoType() === 'bitbucket') {
-                        try {
-                            const prUrl = await gitManager.createPRWithCLI(bucket, baseBranch);
-                            results.push({
-                                bucketName: bucket.name,
-                                branchName,
-                                url: prUrl,
-                                success: true,
-                                manual: gitManager.getRepoType() === 'bitbucket'
-                            });
-                        } catch (error) {
-                            results.push({
-                                bucketName: bucket.name,
-                                branchName,
-                                error: String(error),
-                                success: false
-                            });
-                        }
-                    } else {
-                        // Manual PR creation for GitHub without CLI
-                        const repoUrl = await gitManager.getRepositoryUrl();
-                        const prUrl = `${repoUrl}/compare/${branchName}`;
-                        results.push({
-                            bucketName: bucket.name,
-                            branchName,
-                            url: prUrl,
-                            success: true,
-                            manual: true
-                        });
-                    }
-                }
+        const dropped = await treeDataProvider.setSplitRange(picked.range);
+        if (dropped > 0) {
+            vscode.window.showWarningMessage(`⚠️ ${dropped} saved bucket(s) from an earlier split of other commits were discarded.`);
+        }
+        vscode.window.showInformationMessage(`✂️ Splitting ${picked.range.label}. Drag its files into buckets; each bucket's branch starts from ${defaultBaseBranch} with only its changes.`);
+    });
 
-                // Switch back to original branch
-                await gitManager.switchToBranch(originalBranch);
-
-                // Show results
-                const successCount = results.filter(r => r.success).length;
-                const failureCount = results.length - successCount;
-
-                if (successCount > 0) {
-                    const repoTypeName = repoType === 'github' ? 'GitHub' : repoType === 'bitbucket' ? 'Bitbucket' : 'repository';
-                    const hasManualPRs = results.some(r => r.success && r.manual);
-                    
-                    const message = (useGitHubCLI && repoType === 'github' && !hasManualPRs) ? 
-                        `✅ Successfully created ${successCount} PRs on ${repoTypeName}!` :
-                        `✅ Created ${successCount} branches! Click to open ${repoTypeName} and create PRs.`;
-
-                    const action = await vscode.window.showInformationMessage(
-                        message,
-                        'View Results',
-                        `Open ${repoTypeName}`
-                    );
-
-                    if (action === 'View Results' || action === `Open ${repoTypeName}`) {
-                        for (const result of results.filter(r => r.success)) {
-                            vscode.env.openExternal(vscode.Uri.parse(result?.url || 'https://cli.github.com/'));
-                        }
-                    }
-                }
+    // Create Buckets by Owner Command: one bucket per CODEOWNERS owner set for the unassigned files
+    const createBucketsByOwnerCommand = vscode.commands.registerCommand('multiPR.createBucketsByOwner', () => {
+        const { buckets, files, unowned } = treeDataProvider.createBucketsByOwner();
+        if (buckets.length === 0) {
+            vscode.window.showWarningMessage(unowned > 0
+                ? `No CODEOWNERS entry matches the ${unowned} unassigned file(s).`
+                : 'No unassigned files with owners. Add a CODEOWNERS file or make some changes first.');
+            return;
+        }
+        vscode.window.showInformationMessage(`👥 Moved ${files} file(s) into ${buckets.length} owner bucket(s)${unowned > 0 ? `; ${unowned} file(s) have no owner` : ''}.`);
+    });
 
-                if (failureCount > 0) {
-                    const errors = results.filter(r => !r.success).map(r => 
-                        `• ${r.bucketName}: ${r.error}`
-                    ).join('\n');
+    // Resume Command: continue every bucket from its last completed pipeline step
+    const resumeCommand = vscode.commands.registerCommand('multiPR.resume', async () => {
+        const buckets = treeDataProvider.getBucketsInOrder()
+            .filter(b => b.files.some(f => !f.stale) || b.commits?.some(c => !c.stale) || b.pipeline?.stage === 'pr-opened');
 
-                    vscode.window.showErrorMessage(`❌ ${failureCount} PRs failed:\n${errors}`);
-                }
+        if (!buckets.some(b => b.pipeline && b.pipeline.stage !== 'pr-opened')) {
+            vscode.window.showInformationMessage('Nothing to resume. Use "Create All PRs" to start a new run.');
+            return;
+        }
 
-                // Clear buckets after successful creation
-                if (successCount > 0) {
-                    treeDataProvider.clearBuckets();
-                }
+        const manual = await prepareProvider();
+        if (manual === undefined) {
+            return;
+        }
 
-            } catch (error) {
-                vscode.window.showErrorMessage(`❌ Error creating PRs: ${error}`);
-            }
-        });
+        await runBuckets(buckets, manual);
     });
 
     // Refresh Command
@@ -279,6 +662,17 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage('🔄 Git changes refreshed!');
     });
 
+    // Flat list or folder tree for available and bucket files; the view redraws on the setting change
+    const setFileLayout = (layout: 'list' | 'tree') =>
+        vscode.workspace.getConfiguration('multiPR').update('fileLayout', layout, vscode.ConfigurationTarget.Global);
+    const viewAsTreeCommand = vscode.commands.registerCommand('multiPR.viewAsTree', () => setFileLayout('tree'));
+    const viewAsListCommand = vscode.commands.registerCommand('multiPR.viewAsList', () => setFileLayout('list'));
+    const layoutSettingListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('multiPR.fileLayout')) {
+            treeDataProvider.refresh();
+        }
+    });
+
     // Delete Bucket Command
     const deleteBucketCommand = vscode.commands.registerCommand('multiPR.deleteBucket', (bucket: PRBucket) => {
         treeDataProvider.deleteBucket(bucket);
@@ -294,19 +688,495 @@ export async function activate(context: vscode.ExtensionContext) {
     const setDependencyCommand = vscode.commands.registerCommand('multiPR.setDependency', async (bucket: PRBucket) => {
         try {
             const allBuckets = treeDataProvider.getBuckets();
-            const otherNames = allBuckets.map(b => b.name).filter(n => n !== bucket.name);
-            const picks = ['None', ...otherNames];
-            const choice = await vscode.window.showQuickPick(picks, {
-                placeHolder: 'Select the bucket this one depends on (or None)'
+            const picks = allBuckets
+                .filter(b => b.name !== bucket.name)
+                .map(b => ({ label: b.name, description: b.title, picked: !!bucket.dependsOn?.includes(b.name) }));
+            const chosen = await vscode.window.showQuickPick(picks, {
+                canPickMany: true,
+                placeHolder: 'Select the buckets this one builds on (none for the default base branch)'
             });
-            if (choice === undefined) { return; }
-            const dependsOn = choice === 'None' ? undefined : choice;
-            (treeDataProvider as any).setBucketDependency?.(bucket.name, dependsOn);
+            if (chosen === undefined) { return; }
+            treeDataProvider.setBucketDependency(bucket.name, chosen.map(pick => pick.label));
+            if (chosen.length > 1) {
+                vscode.window.showInformationMessage(`🔀 ${bucket.name} will be based on an integration branch merging ${chosen.map(pick => pick.label).join(', ')}.`);
+            }
         } catch (e) {
-            vscode.window.showErrorMessage(`Failed to set dependency: ${e}`);
+            vscode.window.showErrorMessage(e instanceof DependencyCycleError
+                ? `❌ Not set: ${e.message}`
+                : `Failed to set dependency: ${e}`);
+        }
+    });
+
+    // Dependency Graph Command: the bucket DAG as a Mermaid diagram
+    const showDependencyGraphCommand = vscode.commands.registerCommand('multiPR.showDependencyGraph', async () => {
+        const buckets = treeDataProvider.getBucketsInOrder();
+        if (buckets.length === 0) {
+            vscode.window.showInformationMessage('No buckets yet. Create buckets and set their dependencies first.');
+            return;
+        }
+        const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: renderDependencyGraph(buckets) });
+        await vscode.window.showTextDocument(doc, { preview: true });
+        await vscode.commands.executeCommand('markdown.showPreviewToSide', doc.uri);
+    });
+
+    // Asks which stack of created PRs to work on; skips the question when there is only one
+    const pickStack = async (placeHolder: string): Promise<CreatedStack | undefined> => {
+        const stacks = stackStore.getStacks();
+        if (stacks.length === 0) {
+            vscode.window.showInformationMessage('No PRs created yet. Use "Create All PRs" first.');
+            return undefined;
+        }
+        if (stacks.length === 1) {
+            return stacks[0];
+        }
+        const picked = await vscode.window.showQuickPick(stacks.map(stack => ({
+            label: stack.entries.map(e => e.bucketName).join(' → '),
+            description: `from ${stack.sourceBranch || 'detached HEAD'}`,
+            detail: `${stack.paused ? '⏸️ Restack paused · ' : ''}Created ${new Date(stack.createdAt).toLocaleString()}`,
+            stack
+        })), { placeHolder });
+        return picked?.stack;
+    };
+
+    const openWorktreeWindow = (worktreePath: string) =>
+        vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(worktreePath), { forceNewWindow: true });
+
+    const showRestackPaused = async (paused: Extract<RestackResult, { status: 'paused' }>, commandTitle: string) => {
+        const choice = await vscode.window.showWarningMessage(
+            `⏸️ Restack paused: rebasing ${paused.bucketName} onto ${paused.baseBranch} conflicts in ${paused.conflicts.join(', ')}. Resolve the conflicts, run "git rebase --continue" in the worktree, then run "${commandTitle}" again.`,
+            'Open Worktree'
+        );
+        if (choice === 'Open Worktree') {
+            openWorktreeWindow(paused.worktreePath);
+        }
+    };
+
+    // Asks what to do with a restack still waiting on conflicts. Returns false when it blocks other work.
+    const handlePausedRestack = async (stack: CreatedStack): Promise<boolean> => {
+        const paused = stack.paused;
+        if (!paused || !await gitManager.isRebaseInProgress(paused.worktreePath)) {
+            return true;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `⏸️ Restack is paused: ${paused.bucketName} has unresolved conflicts with ${paused.baseBranch}. Resolve them, run "git rebase --continue" in its worktree, then try again.`,
+            'Open Worktree',
+            'Abort Restack'
+        );
+        if (choice === 'Open Worktree') {
+            openWorktreeWindow(paused.worktreePath);
+        } else if (choice === 'Abort Restack') {
+            const branchName = stack.entries.find(e => e.bucketName === paused.bucketName)?.branchName || '';
+            await gitManager.abortRebase({ branchName, path: paused.worktreePath });
+            stack.paused = undefined;
+            await stackStore.saveStack(stack);
+            vscode.window.showInformationMessage(`↩️ Restack aborted. ${paused.bucketName} is back where it was.`);
+        }
+        return false;
+    };
+
+    // Restack Command: rebase dependent PR branches onto their updated or merged parents
+    const restackCommand = vscode.commands.registerCommand('multiPR.restack', async () => {
+        const stack = await pickStack('Select the stack to restack');
+        if (!stack) { return; }
+
+        if (!await handlePausedRestack(stack)) { return; }
+
+        const defaultBaseBranch = vscode.workspace.getConfiguration('multiPR').get<string>('defaultBaseBranch', 'main');
+        try {
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Restacking PRs'
+            }, progress => new StackRestacker(gitManager, {
+                defaultBaseBranch,
+                onStackChange: changed => { stackStore.saveStack(changed); },
+                report: message => progress.report({ message })
+            }).run(stack));
+
+            if (result.status === 'paused') {
+                await showRestackPaused(result, 'Restack Dependent PRs');
+                return;
+            }
+
+            await updateStackTables(stack);
+            if (result.retargetByHand.length > 0) {
+                vscode.window.showWarningMessage(`⚠️ ${(await gitManager.getProvider())?.displayName || 'The forge'} can't change the target branch of a PR. Retarget by hand: ${result.retargetByHand.join(', ')}.`);
+            }
+            if (result.rebased.length === 0 && result.retargeted.length === 0) {
+                vscode.window.showInformationMessage('✅ Stack is up to date. Nothing to restack.');
+                return;
+            }
+            const retargeted = result.retargeted.length > 0 ? ` Retargeted ${result.retargeted.join(', ')} after their parents merged.` : '';
+            vscode.window.showInformationMessage(`✅ Restacked ${result.rebased.length} branch(es)${result.rebased.length > 0 ? `: ${result.rebased.join(', ')}` : ''}.${retargeted}`);
+        } catch (error) {
+            await stackStore.saveStack(stack);
+            vscode.window.showErrorMessage(`❌ Restack failed: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    // Land Stack Command: merge the stack's PRs parents first, retargeting and rebasing the rest
+    const landStackCommand = vscode.commands.registerCommand('multiPR.landStack', async () => {
+        const stack = await pickStack('Select the stack to land');
+        if (!stack) { return; }
+        if (!await handlePausedRestack(stack)) { return; }
+
+        const remaining = stack.entries.filter(e => !e.merged);
+        if (remaining.length === 0) {
+            vscode.window.showInformationMessage('✅ Every PR of this stack has already landed.');
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('multiPR');
+        const defaultBaseBranch = config.get<string>('defaultBaseBranch', 'main');
+        const method = config.get<MergeMethod>('land.mergeMethod', 'squash');
+        const mode = await vscode.window.showQuickPick([
+            { label: '$(git-merge) Merge now', description: `${method} each PR as soon as it targets ${defaultBaseBranch}`, auto: false },
+            { label: '$(watch) Enable auto-merge', description: 'Let the forge merge each PR once its checks and approvals pass', auto: true }
+        ], { placeHolder: `Land ${remaining.map(e => e.bucketName).join(' → ')} into ${defaultBaseBranch}` });
+        if (!mode) { return; }
+
+        try {
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Landing stack',
+                cancellable: true
+            }, (progress, token) => new StackLander(gitManager, {
+                defaultBaseBranch,
+                merge: { method, auto: mode.auto },
+                pollIntervalMs: 15000,
+                timeoutMs: config.get<number>('land.timeoutMinutes', 60) * 60000,
+                isCancelled: () => token.isCancellationRequested,
+                onStackChange: changed => { stackStore.saveStack(changed); },
+                report: message => progress.report({ message })
+            }).run(stack));
+
+            const landed = result.landed.length > 0 ? `Landed ${result.landed.join(', ')}. ` : '';
+            await updateStackTables(stack);
+            if (result.status === 'paused') {
+                await showRestackPaused(result.restack, 'Land Stack');
+            } else if (result.status === 'cancelled') {
+                vscode.window.showWarningMessage(`⏹️ ${landed}Stopped waiting for ${result.waitingFor}${mode.auto ? '; auto-merge stays enabled' : ''}. Run "Land Stack" again to continue.`);
+            } else {
+                vscode.window.showInformationMessage(`🛬 ${landed}The whole stack is in ${defaultBaseBranch}.`);
+            }
+        } catch (error) {
+            await stackStore.saveStack(stack);
+            vscode.window.showErrorMessage(`❌ Landing stopped: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    // Refresh PR Status Command: query the forge for the Created PRs section now
+    const refreshPRStatusCommand = vscode.commands.registerCommand('multiPR.refreshPRStatus', async () => {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Refreshing PR status'
+        }, () => prTracker.refresh());
+    });
+
+    // Open PR Command: the PR page, or the prefilled creation page for PRs opened by hand
+    const openPRCommand = vscode.commands.registerCommand('multiPR.openPR', (item: TrackedPRItem) => {
+        if (item?.entry.prUrl) {
+            vscode.env.openExternal(vscode.Uri.parse(item.entry.prUrl));
+        }
+    });
+
+    // Checkout Command: switch the user's checkout to a created PR's branch
+    const checkoutPRBranchCommand = vscode.commands.registerCommand('multiPR.checkoutPRBranch', async (item: TrackedPRItem) => {
+        if (!item) { return; }
+        try {
+            await gitManager.checkoutBranch(item.entry.branchName);
+            vscode.window.showInformationMessage(`🔀 Checked out ${item.entry.branchName}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`❌ ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    // Forget Stack Command: drop a run from the Created PRs section; branches and PRs stay
+    const forgetStackCommand = vscode.commands.registerCommand('multiPR.forgetStack', async (item: StackItem) => {
+        if (!item) { return; }
+        const choice = await vscode.window.showWarningMessage(
+            `Remove this run (${item.stack.entries.length} PRs) from Created PRs? Its branches and PRs are not touched, but it can no longer be restacked or landed from here.`,
+            { modal: true },
+            'Remove'
+        );
+        if (choice !== 'Remove') { return; }
+        if (item.stack.paused) {
+            const branchName = item.stack.entries.find(e => e.bucketName === item.stack.paused!.bucketName)?.branchName || '';
+            await gitManager.abortRebase({ branchName, path: item.stack.paused.worktreePath });
+        }
+        await stackStore.removeStack(item.stack.id);
+    });
+
+    // Set Branch Name Command: per-bucket override of multiPR.branchNameTemplate
+    const setBranchNameCommand = vscode.commands.registerCommand('multiPR.setBranchName', async (bucket: PRBucket) => {
+        const defaultTemplate = vscode.workspace.getConfiguration('multiPR').get<string>('branchNameTemplate', DEFAULT_BRANCH_TEMPLATE);
+        const template = await vscode.window.showInputBox({
+            prompt: `Branch name template for ${bucket.name}. Tokens: \${user} \${sourceBranch} \${bucket} \${ticket} \${index} \${date}. Leave empty to use the default (${defaultTemplate}).`,
+            value: bucket.branchNameTemplate || defaultTemplate,
+            validateInput: value => {
+                const unknown = getUnknownTokens(value);
+                return unknown.length > 0 ? `Unknown token(s): ${unknown.join(', ')}` : undefined;
+            }
+        });
+        if (template === undefined) { return; }
+
+        const override = template.trim() && template.trim() !== defaultTemplate ? template.trim() : undefined;
+        treeDataProvider.setBucketBranchTemplate(bucket.name, override);
+
+        try {
+            const index = treeDataProvider.getBucketsInOrder().indexOf(bucket) + 1;
+            vscode.window.showInformationMessage(`🌿 ${bucket.name} will use branch ${await gitManager.generateBranchName(bucket, index)}`);
+        } catch (error) {
+            vscode.window.showWarningMessage(`⚠️ ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    // Link Bucket Command: add the bucket's changes to an open PR or an earlier run's branch instead of a new PR
+    const linkBucketCommand = vscode.commands.registerCommand('multiPR.linkBucket', async (bucket: PRBucket) => {
+        if (!bucket) { return; }
+        const defaultBaseBranch = vscode.workspace.getConfiguration('multiPR').get<string>('defaultBaseBranch', 'main');
+
+        type TargetPick = vscode.QuickPickItem & { target?: BucketTarget; action?: 'branch' | 'unlink' };
+        const items: TargetPick[] = [];
+        if (bucket.target) {
+            items.push({ label: '$(close) Unlink', description: 'Open a new PR for this bucket', action: 'unlink' });
+        }
+        items.push({ label: '$(edit) Enter a branch name...', action: 'branch' });
+
+        const provider = await gitManager.getProvider();
+        let openPRs: OpenPullRequest[] = [];
+        try {
+            openPRs = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Listing open PRs'
+            }, async () => await provider?.listOpenPullRequests?.(await gitManager.getForgeContext()) || []);
+        } catch (error) {
+            vscode.window.showWarningMessage(`⚠️ ${error instanceof Error ? error.message : error}`);
+        }
+        if (openPRs.length > 0) {
+            items.push({ label: `Open PRs on ${provider!.displayName}`, kind: vscode.QuickPickItemKind.Separator });
+            items.push(...openPRs.map(pr => ({
+                label: `$(git-pull-request) ${pr.title}`,
+                description: `${pr.sourceBranch} → ${pr.baseBranch}${pr.isDraft ? ' · draft' : ''}`,
+                detail: pr.url,
+                target: { branchName: pr.sourceBranch, baseBranch: pr.baseBranch, prUrl: pr.url, title: pr.title }
+            })));
+        }
+
+        // Branches of earlier runs, including those whose PR still has to be opened by hand
+        const listed = new Set(openPRs.map(pr => pr.sourceBranch));
+        const previous = stackStore.getStacks()
+            .flatMap(stack => stack.entries.filter(e => !e.merged && !listed.has(e.branchName)).map(entry => ({ stack, entry })));
+        if (previous.length > 0) {
+            items.push({ label: 'Previous runs', kind: vscode.QuickPickItemKind.Separator });
+            items.push(...previous.map(({ stack, entry }) => ({
+                label: `$(git-branch) ${entry.title}`,
+                description: `${entry.branchName} → ${entry.baseBranch}`,
+                detail: `${entry.prUrl && !entry.manual ? entry.prUrl : 'No PR opened yet'} · created ${new Date(stack.createdAt).toLocaleDateString()}`,
+                target: {
+                    branchName: entry.branchName,
+                    baseBranch: entry.baseBranch,
+                    prUrl: entry.prUrl && !entry.manual ? entry.prUrl : undefined,
+                    title: entry.title
+                }
+            })));
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Add the changes of ${bucket.name} to an existing PR or branch`,
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!picked) { return; }
+
+        if (picked.action === 'unlink') {
+            treeDataProvider.setBucketTarget(bucket.name, undefined);
+            vscode.window.showInformationMessage(`🔓 ${bucket.name} will open a new PR.`);
+            return;
+        }
+
+        let target = picked.target;
+        if (picked.action === 'branch') {
+            const branchName = await vscode.window.showInputBox({
+                prompt: 'Existing branch to add the bucket\'s changes to',
+                validateInput: value => value.trim() ? undefined : 'Enter a branch name'
+            });
+            if (!branchName) { return; }
+            const baseBranch = await vscode.window.showInputBox({
+                prompt: `Base branch of ${branchName.trim()}, used for the PR opened for it`,
+                value: defaultBaseBranch
+            });
+            if (!baseBranch) { return; }
+            target = { branchName: branchName.trim(), baseBranch: baseBranch.trim() };
+        }
+        if (!target) { return; }
+
+        // The bucket is committed in a temporary worktree, which git can't open on a branch checked out elsewhere
+        const checkedOutIn = await gitManager.getWorktreeOfBranch(target.branchName).catch(() => undefined);
+        if (checkedOutIn) {
+            vscode.window.showErrorMessage(`❌ ${target.branchName} is checked out in ${checkedOutIn}. Switch that checkout to another branch, then link ${bucket.name} again.`);
+            return;
+        }
+
+        // Processing sets the PR title from the bucket
+        if (target.prUrl && target.title && target.title !== bucket.title) {
+            const title = await vscode.window.showQuickPick([
+                { label: target.title, description: 'Keep the PR title' },
+                { label: bucket.title, description: 'Use the bucket title' }
+            ], { placeHolder: 'Title of the updated PR' });
+            if (!title) { return; }
+            treeDataProvider.setBucketTitle(bucket.name, title.label);
+        }
+
+        treeDataProvider.setBucketTarget(bucket.name, target);
+        vscode.window.showInformationMessage(`🔗 ${bucket.name} will update ${target.prUrl || `branch ${target.branchName}`} instead of opening a new PR.`);
+    });
+
+    // Edit Commit Message Command: type/scope, template override and co-authors for one bucket
+    const editCommitMessageCommand = vscode.commands.registerCommand('multiPR.editCommitMessage', async (bucket: PRBucket) => {
+        const config = vscode.workspace.getConfiguration('multiPR.commit');
+        const options = await pickCommitOptions(bucket.commit);
+        if (!options) { return; }
+
+        const defaultTemplate = config.get<string>('template', DEFAULT_COMMIT_TEMPLATE);
+        const template = await vscode.window.showInputBox({
+            prompt: 'Commit message template (use \\n for new lines). Tokens: ${header} ${type} ${scope} ${title} ${description} ${bucket} ${ticket} ${files}',
+            value: (options.template || defaultTemplate).replace(/\n/g, '\\n')
+        });
+        if (template === undefined) { return; }
+
+        const coAuthors = await vscode.window.showInputBox({
+            prompt: 'Co-authors for this bucket, comma separated (e.g. Jane Doe <jane@example.com>)',
+            value: (options.coAuthors || []).join(', ')
+        });
+        if (coAuthors === undefined) { return; }
+
+        const override = template.trim().replace(/\\n/g, '\n');
+        options.template = override && override !== defaultTemplate ? override : undefined;
+        options.coAuthors = coAuthors.split(',').map(a => a.trim()).filter(Boolean);
+        treeDataProvider.setBucketCommitOptions(bucket.name, options);
+
+        const { message, problems } = await gitManager.prepareCommitMessage(bucket);
+        if (problems.length > 0) {
+            vscode.window.showWarningMessage(`⚠️ Commit message for ${bucket.name} fails validation: ${problems.join('; ')}`);
+        } else {
+            vscode.window.showInformationMessage(`📝 ${bucket.name} will be committed as: ${message.split('\n')[0]}`);
+        }
+    });
+
+    // Edit Description Command: edits the PR description in a markdown editor; saving writes it back to the bucket
+    const descriptionFiles = new Map<string, string>(); // file path -> bucket name
+    const editDescriptionCommand = vscode.commands.registerCommand('multiPR.editDescription', async (bucket: PRBucket) => {
+        if (!bucket) { return; }
+
+        const filePath = path.join(os.tmpdir(), 'multi-pr', `${slugify(bucket.name) || 'bucket'}-description.md`);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, bucket.description, 'utf8');
+        descriptionFiles.set(filePath, bucket.name);
+
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+        vscode.window.showInformationMessage(`📝 Save the file to update the PR description of ${bucket.name}. Placeholders: \${files} \${diffstat} \${dependencies} \${ticket} \${branch} \${baseBranch}`);
+    });
+
+    const descriptionSaveListener = vscode.workspace.onDidSaveTextDocument(doc => {
+        const bucketName = descriptionFiles.get(doc.uri.fsPath);
+        if (bucketName) {
+            treeDataProvider.setBucketDescription(bucketName, doc.getText().trim());
         }
     });
 
+    // Multi-select over known values; text typed into the box is added as new values (comma separated)
+    const pickValues = (title: string, current: string[], suggestions: string[]): Promise<string[] | undefined> => new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick();
+        quickPick.title = title;
+        quickPick.placeholder = 'Select values, or type new ones (comma separated) and press Enter';
+        quickPick.canSelectMany = true;
+        quickPick.items = [...new Set([...current, ...suggestions])].map(label => ({ label }));
+        quickPick.selectedItems = quickPick.items.filter(item => current.includes(item.label));
+
+        let accepted = false;
+        quickPick.onDidAccept(() => {
+            accepted = true;
+            const typed = quickPick.value.split(',').map(value => value.trim()).filter(Boolean);
+            resolve([...new Set([...quickPick.selectedItems.map(item => item.label), ...typed])]);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!accepted) { resolve(undefined); }
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+
+    const METADATA_LABELS: Record<MetadataField, string> = {
+        reviewers: 'Reviewers',
+        assignees: 'Assignees',
+        labels: 'Labels',
+        milestone: 'Milestone',
+        draft: 'Draft'
+    };
+
+    const describeMetadata = (metadata: PullRequestMetadata, field: MetadataField): string => {
+        const value = metadata[field];
+        if (field === 'draft') { return value ? 'Yes' : 'No'; }
+        return Array.isArray(value) ? value.join(', ') || 'None' : (value as string | undefined) || 'None';
+    };
+
+    // Edit PR Metadata Command: reviewers, assignees, labels, milestone and draft for one bucket
+    const editMetadataCommand = vscode.commands.registerCommand('multiPR.editMetadata', async (bucket: PRBucket) => {
+        const provider = await gitManager.getProvider();
+        const supported = provider?.supportedMetadata || [];
+        if (supported.length === 0) {
+            vscode.window.showWarningMessage(`${provider?.displayName || 'This repository'} doesn't support setting reviewers, labels or draft state when PRs are created.`);
+            return;
+        }
+
+        const metadata: PullRequestMetadata = { ...bucket.metadata };
+        const done = '$(check) Done';
+        for (;;) {
+            const choice = await vscode.window.showQuickPick([
+                ...supported.map(field => ({ label: METADATA_LABELS[field], description: describeMetadata(metadata, field), field })),
+                { label: done, description: '', field: undefined }
+            ], { placeHolder: `PR details for ${bucket.name}` });
+            if (!choice) { return; }
+            if (!choice.field) { break; }
+
+            const field = choice.field;
+            if (field === 'draft') {
+                metadata.draft = !metadata.draft || undefined;
+                continue;
+            }
+
+            const suggestions = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: `Loading ${METADATA_LABELS[field].toLowerCase()} from ${provider!.displayName}`
+            }, () => gitManager.getMetadataSuggestions(field));
+
+            if (field === 'milestone') {
+                const none = '$(circle-slash) No milestone';
+                const other = '$(edit) Enter a milestone...';
+                let milestone = suggestions.length > 0
+                    ? await vscode.window.showQuickPick([none, ...suggestions, other], { placeHolder: 'Milestone' })
+                    : other;
+                if (milestone === other) {
+                    milestone = await vscode.window.showInputBox({ prompt: 'Milestone', value: metadata.milestone });
+                }
+                if (milestone !== undefined) {
+                    metadata.milestone = milestone === none || !milestone.trim() ? undefined : milestone.trim();
+                }
+                continue;
+            }
+
+            const values = await pickValues(`${METADATA_LABELS[field]} for ${bucket.name}`, metadata[field] || [], suggestions);
+            if (values !== undefined) {
+                metadata[field] = values.length > 0 ? values : undefined;
+            }
+        }
+
+        treeDataProvider.setBucketMetadata(bucket.name, metadata);
+    });
+
     // Preview Bucket Command
     const previewBucketCommand = vscode.commands.registerCommand('multiPR.previewBucket', async (bucket?: PRBucket) => {
         const config = vscode.workspace.getConfiguration('multiPR');
@@ -322,35 +1192,122 @@ export async function activate(context: vscode.ExtensionContext) {
             if (!bucket) { return; }
         }
 
-        const byName: Record<string, PRBucket> = Object.fromEntries(allBuckets.map(b => [b.name, b]));
-        const dependsOn: string | undefined = (bucket as any)?.dependsOn;
-        const baseBranch = dependsOn ? (byName[dependsOn]?.branchName || defaultBaseBranch) : defaultBaseBranch;
+        const baseBranch = describeBaseBranch(bucket, defaultBaseBranch);
 
         const files = bucket.files || [];
         const lines: string[] = [];
         lines.push(`# Preview: ${bucket.name}`);
         lines.push('');
         lines.push(`- Title: ${bucket.title}`);
-        lines.push(`- Description: ${bucket.description || '(none)'}`);
-        if (dependsOn) { lines.push(`- Depends on: ${dependsOn}`); }
+        if (bucket.descriptionTemplate) { lines.push(`- Description template: ${bucket.descriptionTemplate}`); }
+        if (bucket.dependsOn?.length) { lines.push(`- Depends on: ${bucket.dependsOn.join(', ')}`); }
         lines.push(`- Base branch: ${baseBranch}`);
         lines.push(`- Files (${files.length}):`);
         for (const f of files) {
-            lines.push(`  - ${f.path} (${f.status})`);
+            lines.push(`  - ${f.path} (${f.status}${f.hunks ? `, ${f.hunks.length} hunk(s)` : ''})`);
         }
+        lines.push('');
+        lines.push('## PR description');
+        lines.push('');
+        lines.push(await gitManager.renderPullRequestBody(bucket, baseBranch, getDependencies(bucket)) || '(none)');
         const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
         await vscode.window.showTextDocument(doc, { preview: true });
     });
 
+    const pickBucketForHunks = async (hunks: DiffHunk[]): Promise<void> => {
+        const bucketNames = treeDataProvider.getBuckets().map(b => b.name);
+        if (bucketNames.length === 0) {
+            vscode.window.showWarningMessage('❌ Create a bucket first.');
+            return;
+        }
+
+        const bucketName = await vscode.window.showQuickPick(bucketNames, {
+            placeHolder: 'Select the bucket that should receive these lines'
+        });
+        if (!bucketName) { return; }
+
+        const moved = hunks.filter(hunk => treeDataProvider.assignHunk(hunk, bucketName)).length;
+        if (moved > 0) {
+            vscode.window.showInformationMessage(`✅ Moved ${moved} hunk(s) to ${bucketName}`);
+        }
+    };
+
+    // Assign Hunk Lines Command: pick individual changed lines of a hunk
+    const assignHunkLinesCommand = vscode.commands.registerCommand('multiPR.assignHunkLines', async (item?: HunkItem) => {
+        if (!item) { return; }
+
+        const hunk = item.hunk;
+        const picks = getSelectedLineIndices(hunk).map(index => ({
+            label: hunk.lines[index],
+            description: `line ${getNewLineNumber(hunk, index)}`,
+            index
+        }));
+        const chosen = await vscode.window.showQuickPick(picks, {
+            canPickMany: true,
+            placeHolder: 'Select the changed lines to move'
+        });
+        if (!chosen || chosen.length === 0) { return; }
+
+        await pickBucketForHunks([selectHunkLines(hunk, chosen.map(c => c.index))]);
+    });
+
+    // Assign Selection Command: move the changed lines under the editor selection
+    const assignSelectionCommand = vscode.commands.registerTextEditorCommand('multiPR.assignSelectionToBucket', async (editor) => {
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const filePath = path.relative(root, editor.document.uri.fsPath).split(path.sep).join('/');
+        const selection = editor.selection;
+        const hunks = treeDataProvider.getAvailableHunkLines(filePath, selection.start.line + 1, selection.end.line + 1);
+
+        if (hunks.length === 0) {
+            vscode.window.showWarningMessage('❌ No unassigned changes in the selected lines.');
+            return;
+        }
+
+        await pickBucketForHunks(hunks);
+    });
+
+    // Show Log Command: the output of every git and forge CLI command run so far
+    const showLogCommand = vscode.commands.registerCommand('multiPR.showLog', () => runner.show());
+
+    if (headWatcher) {
+        context.subscriptions.push(headWatcher);
+    }
+
     context.subscriptions.push(
         treeView,
         createBucketCommand,
         processBucketsCommand,
+        resumeCommand,
+        createBucketsByOwnerCommand,
+        splitBranchCommand,
         refreshCommand,
+        viewAsTreeCommand,
+        viewAsListCommand,
+        layoutSettingListener,
         deleteBucketCommand,
         openSettingsCommand,
         setDependencyCommand,
-        previewBucketCommand
+        showDependencyGraphCommand,
+        restackCommand,
+        landStackCommand,
+        refreshPRStatusCommand,
+        openPRCommand,
+        checkoutPRBranchCommand,
+        forgetStackCommand,
+        prTracker,
+        visibilityListener,
+        pollSettingListener,
+        setBranchNameCommand,
+        linkBucketCommand,
+        editCommitMessageCommand,
+        editDescriptionCommand,
+        editMetadataCommand,
+        descriptionSaveListener,
+        previewBucketCommand,
+        assignHunkLinesCommand,
+        assignSelectionCommand,
+        showLogCommand,
+        runner
     );
 
     // Show welcome message
@@ -358,6 +1315,11 @@ export async function activate(context: vscode.ExtensionContext) {
         '🎉 Multi-PR Manager activated! Check the Source Control panel to get started.',
         'Got it!'
     );
+
+    // Public API: other extensions can add forge providers
+    return {
+        registerForgeProvider: provider => providers.register(provider)
+    };
 }
 
 export function deactivate() {}
\ No newline at end of file
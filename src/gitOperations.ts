@@ -1,193 +1,642 @@
-import { execSync } from 'child_process';
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { PRBucket } from './treeViewProvider';
+import * as fs from 'fs';
+import * as os from 'os';
+import { FileItem, PRBucket } from './treeViewProvider';
+import { buildPatch, parseUnifiedDiff } from './diffParser';
+import { loadCodeOwners, ownersToReviewers } from './codeOwners';
+import { buildCommitMessage, DEFAULT_COMMIT_TEMPLATE, DEFAULT_COMMIT_TYPES, lintCommitMessage } from './commitMessage';
+import { DEFAULT_BRANCH_TEMPLATE, findTicket, getUnknownTokens, renderBranchName, slugify } from './branchNames';
+import { findPullRequestTemplates, GITHUB_TEMPLATE_PATHS, PullRequestTemplate, renderPullRequestBody } from './prTemplates';
+import { RunJournal } from './runJournal';
+import { extractStackSection, renderStackSection, StackRow, upsertStackSection } from './stackSection';
+import { ForgeContext, ForgeProvider, MergeOptions, PullRequestMetadata, PullRequestResult, PullRequestStatus, SuggestionKind } from './providers/forgeProvider';
+import { ProviderRegistry } from './providers/registry';
+import { ProcessRunner, RunOptions } from './processRunner';
+
+export interface BucketWorktree {
+    branchName: string;
+    path: string;  // temporary worktree checked out on branchName
+}
+
+export interface BranchCommit {
+    sha: string;
+    subject: string;
+}
+
+export interface BranchCommits {
+    mergeBase: string;
+    commits: BranchCommit[];  // oldest first
+}
+
+export interface RebaseOutcome {
+    ontoSha: string;             // tip of the base the branch now sits on
+    changed: boolean;            // the branch moved and needs a force push
+    conflicts?: string[];        // set when the rebase stopped; it is left in progress in `worktree`
+    worktree?: BucketWorktree;
+}
 
 export class GitManager {
     private workspaceRoot: string;
-    private repoType: 'github' | 'bitbucket' | 'unknown' = 'unknown';
+    private suggestionCache = new Map<string, string[]>();
 
-    constructor() {
+    constructor(private readonly providers: ProviderRegistry, private readonly runner: ProcessRunner) {
         this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-        this.detectRepoType();
     }
 
-    private detectRepoType(): void {
+    // git in the user's checkout unless another directory (a worktree) is given
+    private git(args: string[], options: Partial<RunOptions> = {}): Promise<string> {
+        return this.runner.git(args, { cwd: this.workspaceRoot, ...options });
+    }
+
+    private gitSucceeds(args: string[], options: Partial<RunOptions> = {}): Promise<boolean> {
+        return this.runner.succeeds('git', args, { cwd: this.workspaceRoot, ...options });
+    }
+
+    private async getRemoteUrl(): Promise<string> {
+        try {
+            return (await this.git(['config', '--get', 'remote.origin.url'], { quiet: true })).trim();
+        } catch {
+            return '';
+        }
+    }
+
+    /** The forge provider for the origin remote, resolved on every call so late registrations apply. */
+    async getProvider(): Promise<ForgeProvider | undefined> {
+        return this.providers.resolve(await this.getRemoteUrl());
+    }
+
+    async getForgeContext(manual = false): Promise<ForgeContext> {
+        return { workspaceRoot: this.workspaceRoot, remoteUrl: await this.getRemoteUrl(), manual };
+    }
+
+    private async requireProvider(): Promise<ForgeProvider> {
+        const provider = await this.getProvider();
+        if (!provider) {
+            throw new Error('Unsupported repository type. No forge provider recognises the origin remote.');
+        }
+        return provider;
+    }
+
+    async getCurrentBranch(): Promise<string> {
+        try {
+            return (await this.git(['branch', '--show-current'], { quiet: true })).trim();
+        } catch (error) {
+            throw new Error(`Failed to get current branch: ${error}`);
+        }
+    }
+
+    async getRepositoryUrl(): Promise<string> {
+        try {
+            return (await this.requireProvider()).getRepositoryWebUrl(await this.getForgeContext());
+        } catch (error) {
+            throw new Error(`Failed to get repository URL: ${error}`);
+        }
+    }
+
+    async stageFilesForBucket(bucket: PRBucket, worktreePath: string): Promise<void> {
+        if (!this.workspaceRoot || bucket.files.length === 0) return;
+
+        // Split buckets replay committed changes; the others the working tree's changes against HEAD
+        const range = bucket.source ? [bucket.source.from, bucket.source.to] : ['HEAD'];
+
         try {
-            const remoteUrl = execSync('git config --get remote.origin.url', { 
-                cwd: this.workspaceRoot, 
-                encoding: 'utf8' 
-            }).trim();
-
-            if (remoteUrl.includes('github.com')) {
-                this.repoType = 'github';
-            } else if (remoteUrl.includes('bitbucket.org')) {
-                this.repoType = 'bitbucket';
-            } else {
-                this.repoType = 'unknown';
+            const files = bucket.files.filter(f => !f.stale);
+            const untracked = files.filter(f => f.gitStatus === '??');
+            const split = files.filter(f => f.gitStatus !== '??' && f.hunks && f.hunks.length > 0);
+            const whole = files.filter(f => f.gitStatus !== '??' && !(f.hunks && f.hunks.length > 0));
+
+            // Tracked files: replay the user's changes onto the base in the worktree
+            if (whole.length > 0) {
+                // Both sides of a rename go in, so the patch moves the file instead of only adding its new path
+                const paths = whole.flatMap(f => f.originalPath && /R/.test(f.gitStatus || '') ? [f.originalPath, f.path] : [f.path]);
+                const patch = await this.git(['diff', ...range, '-M', '--binary', '--no-color', '--no-ext-diff', '--', ...paths], { quiet: true });
+                if (patch.trim().length > 0) {
+                    await this.git(['apply', '--index', '--3way', '--whitespace=nowarn', '-'], { cwd: worktreePath, input: patch });
+                }
+            }
+
+            for (const file of split) {
+                await this.stageHunks(file, worktreePath, range);
+            }
+
+            // Untracked files have no diff against HEAD: copy them over as they are
+            for (const file of untracked) {
+                const target = path.join(worktreePath, file.path);
+                fs.mkdirSync(path.dirname(target), { recursive: true });
+                fs.copyFileSync(path.join(this.workspaceRoot, file.path), target);
+                await this.git(['add', '--', file.path], { cwd: worktreePath });
             }
         } catch (error) {
-            this.repoType = 'unknown';
+            throw new Error(`Failed to stage files for ${bucket.name}: ${error}`);
         }
     }
 
-    getRepoType(): 'github' | 'bitbucket' | 'unknown' {
-        return this.repoType;
+    private async stageHunks(file: FileItem, worktreePath: string, range: string[]): Promise<void> {
+        // Re-read the file header so the patch matches what git expects for this path
+        const diff = await this.git(['diff', ...range, '--no-color', '--no-ext-diff', '--', file.path], { quiet: true });
+        const fileDiff = parseUnifiedDiff(diff)[0];
+        if (!fileDiff) {
+            throw new Error(`No changes left in ${file.path}`);
+        }
+
+        // --recount tolerates hunks trimmed down to a line selection
+        await this.git(['apply', '--index', '--recount', '--whitespace=nowarn', '-'], {
+            cwd: worktreePath,
+            input: buildPatch(fileDiff, file.hunks || [])
+        });
     }
 
-    async checkCLI(): Promise<void> {
-        if (this.repoType === 'github') {
-            return this.checkGitHubCLI();
-        } else if (this.repoType === 'bitbucket') {
-            return this.checkBitbucketCLI();
-        } else {
-            throw new Error('Unsupported repository type. Only GitHub and Bitbucket are supported.');
+    /**
+     * Resolves the ref a bucket branch starts from. The remote-tracking branch is
+     * preferred so PRs are based on what reviewers see, without pulling into the user's tree.
+     */
+    private async resolveBaseRef(baseBranch: string): Promise<string> {
+        try {
+            await this.git(['fetch', 'origin', baseBranch]);
+        } catch {
+            // Offline or a branch that only exists locally (e.g. a parent bucket's branch)
+        }
+
+        for (const ref of [`refs/remotes/origin/${baseBranch}`, `refs/heads/${baseBranch}`]) {
+            if (await this.resolveCommit(ref)) {
+                return ref;
+            }
         }
+
+        throw new Error(`Base branch ${baseBranch} not found locally or on origin`);
     }
 
-    private async checkGitHubCLI(): Promise<void> {
+    /**
+     * The commits of the current branch that aren't on the base branch, oldest first,
+     * and the merge-base they start from, for splitting a committed branch.
+     */
+    async getBranchCommits(baseBranch: string): Promise<BranchCommits> {
         try {
-            execSync('gh --version', { stdio: 'ignore' });
+            const mergeBase = (await this.git(['merge-base', 'HEAD', await this.resolveBaseRef(baseBranch)], { quiet: true })).trim();
+            const log = await this.git(['log', '--reverse', '--format=%H%x09%s', `${mergeBase}..HEAD`], { quiet: true });
+            const commits = log.split('\n').filter(Boolean).map(line => {
+                const [sha, ...subject] = line.split('\t');
+                return { sha, subject: subject.join('\t') };
+            });
+            return { mergeBase, commits };
+        } catch (error) {
+            throw new Error(`Failed to list the commits of the current branch since ${baseBranch}: ${error}`);
+        }
+    }
 
-            // Check if logged in
+    private async getUserToken(): Promise<string> {
+        for (const key of ['user.email', 'user.name']) {
             try {
-                execSync('gh auth status', { stdio: 'ignore' });
+                const value = (await this.git(['config', '--get', key], { quiet: true })).trim();
+                if (value) {
+                    return slugify(key === 'user.email' ? value.split('@')[0] : value);
+                }
             } catch {
-                throw new Error('GitHub CLI found but not authenticated. Run: gh auth login');
+                // Not configured
+            }
+        }
+        return slugify(os.userInfo().username);
+    }
+
+    private async getExistingBranches(): Promise<Set<string>> {
+        const names = new Set<string>();
+        try {
+            const local = await this.git(['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes/origin'], { quiet: true });
+            for (const ref of local.split('\n').filter(Boolean)) {
+                names.add(ref.replace(/^refs\/(heads|remotes\/origin)\//, ''));
             }
+        } catch {
+            // Fresh repository without refs
+        }
+
+        try {
+            // Branches pushed by others that haven't been fetched yet
+            const remote = await this.git(['ls-remote', '--heads', 'origin'], { quiet: true, timeoutMs: 15000 });
+            for (const line of remote.split('\n').filter(Boolean)) {
+                names.add(line.split('\t')[1].replace(/^refs\/heads\//, ''));
+            }
+        } catch {
+            // Offline or no origin remote
+        }
+        return names;
+    }
+
+    /**
+     * Expands the bucket's branch template (its own override or `multiPR.branchNameTemplate`),
+     * validates it with `git check-ref-format` and adds a -2, -3... suffix if the
+     * name is already taken locally or on origin.
+     */
+    async generateBranchName(bucket: PRBucket, index: number): Promise<string> {
+        const config = vscode.workspace.getConfiguration('multiPR');
+        const template = bucket.branchNameTemplate || config.get<string>('branchNameTemplate', DEFAULT_BRANCH_TEMPLATE);
+
+        const unknown = getUnknownTokens(template);
+        if (unknown.length > 0) {
+            throw new Error(`Unknown token(s) in branch name template "${template}": ${unknown.map(t => `\${${t}}`).join(', ')}`);
+        }
+
+        const sourceBranch = await this.getCurrentBranch().catch(() => '');
+        const baseName = renderBranchName(template, {
+            user: await this.getUserToken(),
+            sourceBranch,
+            bucket: slugify(bucket.name),
+            ticket: findTicket(bucket.name, bucket.title, sourceBranch),
+            index,
+            date: new Date().toISOString().substring(0, 10)
+        });
+
+        if (!await this.gitSucceeds(['check-ref-format', '--branch', baseName])) {
+            throw new Error(`Branch name "${baseName}" (from template "${template}") is not a valid git branch name`);
+        }
+
+        const existing = await this.getExistingBranches();
+        let branchName = baseName;
+        for (let suffix = 2; existing.has(branchName); suffix++) {
+            branchName = `${baseName}-${suffix}`;
+        }
+        return branchName;
+    }
+
+    /**
+     * Creates the bucket's branch from the base in a temporary worktree, so the
+     * user's checkout, index and unassigned edits are never touched.
+     */
+    async createBranchForBucket(bucket: PRBucket, index: number, baseBranch?: string): Promise<BucketWorktree> {
+        if (!this.workspaceRoot) {
+            throw new Error('No workspace root found');
+        }
+
+        try {
+            const branchName = await this.generateBranchName(bucket, index);
+
+            const baseRef = baseBranch && baseBranch.trim().length > 0 ? await this.resolveBaseRef(baseBranch) : 'HEAD';
+            const worktreePath = await this.addTemporaryWorktree(['--no-track', '-b', branchName], baseRef);
+
+            return { branchName, path: worktreePath };
         } catch (error) {
-            throw new Error('GitHub CLI not found. Install from: https://cli.github.com/');
+            throw new Error(`Failed to create branch for ${bucket.name}: ${error}`);
         }
     }
 
-    private async checkBitbucketCLI(): Promise<void> {
-        // For Bitbucket, we'll use git commands and provide manual PR creation URLs
-        // Bitbucket doesn't have a widely adopted CLI like GitHub
-        return Promise.resolve();
+    /**
+     * Creates (or brings up to date) `integration/<bucket>`: the first parent's branch
+     * with the other parents merged in, so a bucket with several parents has a single
+     * base that contains all of them. A merge conflict between the parents aborts.
+     */
+    async createIntegrationBranch(bucketName: string, parentBranches: string[]): Promise<{ branchName: string; created: boolean }> {
+        const branchName = `integration/${slugify(bucketName) || 'bucket'}`;
+        let created = false;
+        let worktree: BucketWorktree;
+
+        if (await this.gitSucceeds(['show-ref', '--verify', '--quiet', `refs/heads/${branchName}`])) {
+            worktree = await this.openWorktree(branchName);
+        } else {
+            const worktreePath = await this.addTemporaryWorktree(['--no-track', '-b', branchName], await this.resolveBaseRef(parentBranches[0]));
+            worktree = { branchName, path: worktreePath };
+            created = true;
+        }
+
+        try {
+            for (const parent of parentBranches) {
+                const ref = await this.resolveBaseRef(parent);
+                if (await this.gitSucceeds(['merge-base', '--is-ancestor', ref, 'HEAD'], { cwd: worktree.path })) {
+                    continue;  // Already contained
+                }
+
+                try {
+                    await this.git(['merge', '--no-ff', '--no-edit', '-m', `Merge ${parent} into ${branchName}`, ref], { cwd: worktree.path });
+                } catch {
+                    try {
+                        await this.git(['merge', '--abort'], { cwd: worktree.path });
+                    } catch {
+                        // Nothing to abort
+                    }
+                    throw new Error(`The parents of ${bucketName} conflict: merging ${parent} into ${branchName} failed. Resolve the conflict between ${parentBranches.join(', ')} or depend on fewer buckets.`);
+                }
+            }
+        } catch (error) {
+            await this.removeWorktree(worktree);
+            if (created) {
+                await this.deleteLocalBranch(branchName).catch(() => undefined);
+            }
+            throw error;
+        }
+
+        await this.removeWorktree(worktree);
+        return { branchName, created };
     }
 
-    async getCurrentBranch(): Promise<string> {
+    /** Path of the worktree that has the branch checked out (the user's own checkout included), if any. */
+    async getWorktreeOfBranch(branchName: string): Promise<string | undefined> {
+        const output = await this.git(['worktree', 'list', '--porcelain'], { quiet: true });
+        let worktreePath: string | undefined;
+        for (const line of output.split('\n')) {
+            if (line.startsWith('worktree ')) {
+                worktreePath = line.substring('worktree '.length);
+            } else if (line === `branch refs/heads/${branchName}`) {
+                return worktreePath;
+            }
+        }
+        return undefined;
+    }
+
+    /** Checks out an existing branch in a temporary worktree, e.g. to resume an interrupted bucket. */
+    async openWorktree(branchName: string): Promise<BucketWorktree> {
+        // git refuses to check out a branch twice
+        const checkedOutIn = await this.getWorktreeOfBranch(branchName).catch(() => undefined);
+        if (checkedOutIn) {
+            throw new Error(`Failed to open branch ${branchName}: it is checked out in ${checkedOutIn}. Switch that checkout to another branch first.`);
+        }
+
         try {
-            const branch = execSync('git branch --show-current', { 
-                cwd: this.workspaceRoot, 
-                encoding: 'utf8' 
-            }).trim();
-            return branch;
+            return { branchName, path: await this.addTemporaryWorktree([], branchName) };
         } catch (error) {
-            throw new Error(`Failed to get current branch: ${error}`);
+            throw new Error(`Failed to open branch ${branchName}: ${error}`);
         }
     }
 
-    async getRepositoryUrl(): Promise<string> {
+    /** `git worktree add [options] <temporary directory> <commitish>`; the directory is removed again when git fails. */
+    private async addTemporaryWorktree(options: string[], commitish: string): Promise<string> {
+        const worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-pr-'));
         try {
-            const remoteUrl = execSync('git config --get remote.origin.url', { 
-                cwd: this.workspaceRoot, 
-                encoding: 'utf8' 
-            }).trim();
-
-            // Convert SSH to HTTPS for browser opening
-            if (remoteUrl.startsWith('git@github.com:')) {
-                return remoteUrl.replace('git@github.com:', 'https://github.com/').replace('.git', '');
-            } else if (remoteUrl.startsWith('git@bitbucket.org:')) {
-                return remoteUrl.replace('git@bitbucket.org:', 'https://bitbucket.org/').replace('.git', '');
-            } else if (remoteUrl.includes('github.com')) {
-                return remoteUrl.replace('.git', '');
-            } else if (remoteUrl.includes('bitbucket.org')) {
-                return remoteUrl.replace('.git', '');
+            await this.git(['worktree', 'add', ...options, worktreePath, commitish]);
+            return worktreePath;
+        } catch (error) {
+            fs.rmSync(worktreePath, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Checks out a linked bucket's existing branch in a temporary worktree, creating the
+     * local branch from origin when needed and catching up with commits pushed elsewhere.
+     */
+    async openExistingBranch(branchName: string): Promise<BucketWorktree> {
+        try {
+            await this.git(['fetch', 'origin', branchName]);
+        } catch {
+            // Offline or a local-only branch
+        }
+
+        if (!await this.resolveCommit(`refs/heads/${branchName}`)) {
+            if (!await this.resolveCommit(`refs/remotes/origin/${branchName}`)) {
+                throw new Error(`Branch ${branchName} not found locally or on origin`);
             }
+            await this.git(['branch', '--track', branchName, `origin/${branchName}`]);
+        }
 
-            return remoteUrl;
+        const worktree = await this.openWorktree(branchName);
+        try {
+            await this.syncWithOrigin(worktree);
         } catch (error) {
-            throw new Error(`Failed to get repository URL: ${error}`);
+            await this.removeWorktree(worktree);
+            throw error;
         }
+        return worktree;
     }
 
-    async stageFilesForBucket(bucket: PRBucket): Promise<void> {
-        if (!this.workspaceRoot || bucket.files.length === 0) return;
+    /** Whether the branch checked out in the worktree has commits on top of its base, so amending won't touch the base. */
+    async hasOwnCommits(worktreePath: string, baseBranch: string): Promise<boolean> {
+        return !await this.gitSucceeds(['merge-base', '--is-ancestor', 'HEAD', await this.resolveBaseRef(baseBranch)], { cwd: worktreePath });
+    }
 
+    async removeWorktree(worktree: BucketWorktree): Promise<void> {
         try {
-            // Unstage everything first to ensure isolation
-            execSync('git reset', { cwd: this.workspaceRoot });
-
-            // Stage each file individually to handle spaces and special characters
-            for (const file of bucket.files) {
-                const fullPath = path.join(this.workspaceRoot, file.path);
-                // For deletions, 'git add' won't stage removed files. Use git rm when needed.
-                if (file.status === 'Deleted' || file.gitStatus === 'D') {
-                    try {
-                        execSync(`git rm -f --ignore-unmatch "${file.path}"`, { cwd: this.workspaceRoot });
-                    } catch {
-                        // If the file wasn't tracked, ignore
-                    }
-                } else {
-                    const cmd = `git add "${file.path}"`;
-                    execSync(cmd, { cwd: this.workspaceRoot });
+            await this.git(['worktree', 'remove', '--force', worktree.path]);
+        } catch {
+            // Fall back to deleting the directory and letting git forget it
+            fs.rmSync(worktree.path, { recursive: true, force: true });
+            try { await this.git(['worktree', 'prune']); } catch {}
+        }
+    }
+
+    /** Full SHA of a commit-ish, or undefined when it doesn't resolve. */
+    async resolveCommit(ref: string): Promise<string | undefined> {
+        try {
+            return (await this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { quiet: true })).trim();
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Like resolveBaseRef, but prefers the local branch when it is ahead of origin,
+     * so fixes committed to a parent but not yet pushed are restacked onto as well.
+     */
+    private async resolveLatestRef(branchName: string): Promise<string> {
+        const remoteRef = await this.resolveBaseRef(branchName);
+        const localRef = `refs/heads/${branchName}`;
+        if (remoteRef === localRef || !await this.resolveCommit(localRef)) {
+            return remoteRef;
+        }
+        return await this.gitSucceeds(['merge-base', '--is-ancestor', remoteRef, localRef]) ? localRef : remoteRef;
+    }
+
+    /**
+     * Rebases a branch in a temporary worktree: the commits after `upstreamSha` (the old
+     * base) are replayed onto the tip of `baseBranch`, which also drops a squash-merged
+     * parent's commits. Without `upstreamSha` git works out the fork point itself.
+     * On a conflict the rebase is left in progress and the worktree is returned.
+     */
+    async rebaseBranch(branchName: string, baseBranch: string, upstreamSha?: string): Promise<RebaseOutcome> {
+        const ontoSha = (await this.resolveCommit(await this.resolveLatestRef(baseBranch)))!;
+        if (upstreamSha === ontoSha) {
+            return { ontoSha, changed: false };
+        }
+        const worktree = await this.openWorktree(branchName);
+
+        try {
+            await this.syncWithOrigin(worktree);
+            const before = (await this.git(['rev-parse', 'HEAD'], { cwd: worktree.path, quiet: true })).trim();
+
+            try {
+                const upstream = upstreamSha ? ['--onto', ontoSha, upstreamSha] : [ontoSha];
+                await this.git(['rebase', ...upstream], { cwd: worktree.path });
+            } catch (error) {
+                const conflicts = await this.getConflictedFiles(worktree.path);
+                if (conflicts.length > 0 && await this.isRebaseInProgress(worktree.path)) {
+                    return { ontoSha, changed: true, conflicts, worktree };
                 }
+                await this.abortRebase(worktree);
+                throw new Error(`Failed to rebase ${branchName} onto ${baseBranch}: ${error}`);
             }
+
+            const after = (await this.git(['rev-parse', 'HEAD'], { cwd: worktree.path, quiet: true })).trim();
+            await this.removeWorktree(worktree);
+            return { ontoSha, changed: before !== after };
         } catch (error) {
-            throw new Error(`Failed to stage files for ${bucket.name}: ${error}`);
+            if (!await this.isRebaseInProgress(worktree.path)) {
+                await this.removeWorktree(worktree);
+            }
+            throw error;
         }
     }
 
-    async createBranchForBucket(bucketName: string, baseBranch?: string): Promise<string> {
-        if (!this.workspaceRoot) {
-            throw new Error('No workspace root found');
+    // Picks up commits pushed to the branch from elsewhere, so the force push can't drop them
+    private async syncWithOrigin(worktree: BucketWorktree): Promise<void> {
+        try {
+            await this.git(['fetch', 'origin', worktree.branchName], { cwd: worktree.path });
+        } catch {
+            return;  // Offline or never pushed
+        }
+
+        const remoteRef = `refs/remotes/origin/${worktree.branchName}`;
+        if (!await this.resolveCommit(remoteRef)) {
+            return;
         }
+        const isAncestor = (ancestor: string, descendant: string) =>
+            this.gitSucceeds(['merge-base', '--is-ancestor', ancestor, descendant], { cwd: worktree.path });
 
+        if (await isAncestor('HEAD', remoteRef)) {
+            await this.git(['merge', '--ff-only', remoteRef], { cwd: worktree.path });
+        } else if (!await isAncestor(remoteRef, 'HEAD')) {
+            throw new Error(`${worktree.branchName} has diverged from origin/${worktree.branchName}. Pull or push it first.`);
+        }
+    }
+
+    isRebaseInProgress(worktreePath: string): Promise<boolean> {
+        return this.hasGitPath(worktreePath, ['rebase-merge', 'rebase-apply']);
+    }
+
+    // Whether any of the named entries exists in the worktree's git directory
+    private async hasGitPath(worktreePath: string, names: string[]): Promise<boolean> {
         try {
-            // Create a sanitized branch name
-            const sanitized = bucketName.toLowerCase()
-                .replace(/[^a-z0-9\s]/g, '') // Remove special chars except spaces
-                .replace(/\s+/g, '-') // Replace spaces with dashes
-                .replace(/^-+|-+$/g, '') // Remove leading/trailing dashes
-                .substring(0, 40); // Limit length
-
-            const timestamp = Date.now().toString().slice(-6); // Last 6 digits
-            const branchName = `feature/${sanitized}-${timestamp}`;
-
-            // If a base branch is provided, switch to it first to branch off correctly
-            if (baseBranch && baseBranch.trim().length > 0) {
-                try {
-                    execSync(`git checkout "${baseBranch}"`, { cwd: this.workspaceRoot });
-                    // Ensure it's up to date (best-effort, ignore failures for non-tracking branches)
-                    try { execSync(`git pull --ff-only`, { cwd: this.workspaceRoot, stdio: 'ignore' }); } catch {}
-                } catch (error) {
-                    // If checkout fails, proceed from current HEAD
+            for (const name of names) {
+                const gitPath = (await this.git(['rev-parse', '--git-path', name], { cwd: worktreePath, quiet: true })).trim();
+                if (fs.existsSync(path.resolve(worktreePath, gitPath))) {
+                    return true;
                 }
             }
+        } catch {
+            // Worktree was removed
+        }
+        return false;
+    }
 
-            // Create and checkout new branch off the current HEAD
-            execSync(`git checkout -b "${branchName}"`, { cwd: this.workspaceRoot });
+    private async getConflictedFiles(worktreePath: string): Promise<string[]> {
+        const output = await this.git(['diff', '--name-only', '-z', '--diff-filter=U'], { cwd: worktreePath, quiet: true });
+        return output.split('\0').filter(Boolean);
+    }
 
-            return branchName;
+    /**
+     * Cherry-picks commits, in the given order, onto the branch checked out in the worktree.
+     * On a conflict the cherry-pick is left in progress and the conflicted files are returned.
+     */
+    async cherryPickCommits(worktreePath: string, shas: string[]): Promise<string[]> {
+        try {
+            // Commits that turn out empty on the new base are kept rather than stopping the pick
+            await this.git(['cherry-pick', '--allow-empty', '--keep-redundant-commits', ...shas], { cwd: worktreePath });
+            return [];
         } catch (error) {
-            throw new Error(`Failed to create branch for ${bucketName}: ${error}`);
+            const conflicts = await this.getConflictedFiles(worktreePath);
+            if (conflicts.length > 0 && await this.isCherryPickInProgress(worktreePath)) {
+                return conflicts;
+            }
+            try {
+                await this.git(['cherry-pick', '--abort'], { cwd: worktreePath });
+            } catch {
+                // Nothing to abort
+            }
+            throw new Error(`Failed to cherry-pick ${shas.length} commit(s): ${error}`);
         }
     }
 
-    async commitBucket(bucket: PRBucket): Promise<void> {
-        if (!this.workspaceRoot) return;
+    /** Number of commits the worktree's HEAD has on top of `sha`. */
+    async countCommitsSince(worktreePath: string, sha: string): Promise<number> {
+        return Number((await this.git(['rev-list', '--count', `${sha}..HEAD`], { cwd: worktreePath, quiet: true })).trim());
+    }
 
+    /** Moves the branch checked out in the worktree back to `sha`, dropping its commits and changes since. */
+    async resetWorktree(worktreePath: string, sha: string): Promise<void> {
+        await this.git(['reset', '--hard', sha], { cwd: worktreePath });
+    }
+
+    isCherryPickInProgress(worktreePath: string): Promise<boolean> {
+        return this.hasGitPath(worktreePath, ['CHERRY_PICK_HEAD', 'sequencer']);
+    }
+
+    /** Aborts a paused cherry-pick, putting the branch back where it was, and removes its worktree. */
+    async abortCherryPick(worktree: BucketWorktree): Promise<void> {
         try {
-            // Create a proper commit message
-            const filesList = bucket.files.map(f => `- ${f.path}`).join('\n');
+            await this.git(['cherry-pick', '--abort'], { cwd: worktree.path });
+        } catch {
+            // No cherry-pick in progress
+        }
+        await this.removeWorktree(worktree);
+    }
 
-            const commitMessage = `${bucket.title}
+    /** Aborts a paused rebase, putting the branch back where it was, and removes its worktree. */
+    async abortRebase(worktree: BucketWorktree): Promise<void> {
+        try {
+            await this.git(['rebase', '--abort'], { cwd: worktree.path });
+        } catch {
+            // No rebase in progress
+        }
+        await this.removeWorktree(worktree);
+    }
 
-${bucket.description ? bucket.description + '\n\n' : ''}Files modified:
-${filesList}`;
+    /**
+     * Builds the bucket's commit message from its template and checks it against
+     * the configured commitlint-style rules. Signed-off-by is added by git itself.
+     */
+    async prepareCommitMessage(bucket: PRBucket): Promise<{ message: string; problems: string[] }> {
+        const config = vscode.workspace.getConfiguration('multiPR.commit');
+        const sourceBranch = await this.getCurrentBranch().catch(() => '');
+
+        const message = buildCommitMessage({
+            bucketName: bucket.name,
+            title: bucket.title,
+            // PR templates are checklists for reviewers, not commit bodies
+            description: bucket.descriptionTemplate ? '' : bucket.description,
+            files: bucket.files.filter(f => !f.stale).map(f => f.path),
+            ticket: findTicket(bucket.name, bucket.title, sourceBranch),
+            options: bucket.commit || {}
+        }, {
+            template: config.get<string>('template', DEFAULT_COMMIT_TEMPLATE),
+            coAuthors: config.get<string[]>('coAuthors', []),
+            issueTrailer: config.get<string>('issueTrailer', '').trim()
+        });
+
+        const problems = lintCommitMessage(message, {
+            conventional: config.get<boolean>('conventional', false),
+            types: config.get<string[]>('types', DEFAULT_COMMIT_TYPES),
+            scopes: config.get<string[]>('scopes', []),
+            headerMaxLength: config.get<number>('headerMaxLength', 72)
+        });
+
+        return { message, problems };
+    }
 
-            // Use -m flag to avoid issues with multiline messages
-            const tempFile = require('path').join(this.workspaceRoot, '.git', 'COMMIT_EDITMSG_TEMP');
-            require('fs').writeFileSync(tempFile, commitMessage, 'utf8');
+    private getCommitArgs(): string[] {
+        const config = vscode.workspace.getConfiguration('multiPR.commit');
+        const signOff = config.get<boolean>('signOff', false) ? ['--signoff'] : [];
 
-            execSync(`git commit -F "${tempFile}"`, { cwd: this.workspaceRoot });
+        // "default" leaves commit.gpgsign / gpg.format from the user's git config in charge
+        switch (config.get<string>('sign', 'default')) {
+            case 'gpg': return ['-c', 'gpg.format=openpgp', 'commit', ...signOff, '-S'];
+            case 'ssh': return ['-c', 'gpg.format=ssh', 'commit', ...signOff, '-S'];
+            case 'off': return ['commit', ...signOff, '--no-gpg-sign'];
+            default: return ['commit', ...signOff];
+        }
+    }
 
-            // Clean up temp file
-            try {
-                require('fs').unlinkSync(tempFile);
-            } catch {} // Ignore cleanup errors
+    /** With `amend` the bucket's changes and message replace the branch's last commit. */
+    async commitBucket(bucket: PRBucket, worktreePath: string, amend = false): Promise<string> {
+        if (!this.workspaceRoot) {
+            throw new Error('No workspace root found');
+        }
 
+        const { message, problems } = await this.prepareCommitMessage(bucket);
+        if (problems.length > 0) {
+            throw new Error(`Commit message for ${bucket.name} fails validation: ${problems.join('; ')}`);
+        }
+
+        try {
+            // Read the message from stdin to avoid issues with multiline messages
+            await this.git([...this.getCommitArgs(), ...(amend ? ['--amend'] : []), '-F', '-'], { cwd: worktreePath, input: message });
+
+            return (await this.git(['rev-parse', 'HEAD'], { cwd: worktreePath, quiet: true })).trim();
         } catch (error) {
             throw new Error(`Failed to commit ${bucket.name}: ${error}`);
         }
@@ -198,78 +647,262 @@ ${filesList}`;
 
         try {
             // Push branch to origin
-            execSync(`git push -u origin "${branchName}"`, { 
-                cwd: this.workspaceRoot,
-                stdio: 'ignore' // Suppress git push output
-            });
+            await this.git(['push', '-u', 'origin', branchName]);
         } catch (error) {
             throw new Error(`Failed to push branch ${branchName}: ${error}`);
         }
     }
 
-    async switchToBranch(branchName: string): Promise<void> {
-        if (!this.workspaceRoot) return;
+    /** Pushes a rewritten branch, refusing if origin moved since it was last fetched. */
+    async forcePushBranch(branchName: string): Promise<void> {
+        try {
+            await this.git(['push', '--force-with-lease', 'origin', branchName]);
+        } catch (error) {
+            throw new Error(`Failed to force-push branch ${branchName}: ${error}`);
+        }
+    }
 
+    /** Switches the user's checkout to a branch, creating it from origin when it only exists there. */
+    async checkoutBranch(branchName: string): Promise<void> {
         try {
-            execSync(`git checkout "${branchName}"`, { cwd: this.workspaceRoot });
+            await this.git(['fetch', 'origin', branchName]);
+        } catch {
+            // Offline or a local-only branch
+        }
+
+        const args = await this.resolveCommit(`refs/heads/${branchName}`)
+            ? ['checkout', branchName]
+            : ['checkout', '--track', '-b', branchName, `origin/${branchName}`];
+        try {
+            await this.git(args);
         } catch (error) {
-            throw new Error(`Failed to switch to branch ${branchName}: ${error}`);
+            throw new Error(`Failed to check out ${branchName}: ${error}`);
         }
     }
 
-    async createPRWithCLI(bucket: PRBucket, baseBranch: string): Promise<string> {
-        if (!this.workspaceRoot || !bucket.branchName) {
-            throw new Error('Invalid bucket or branch name');
+    /** Moves a branch back to an earlier commit, on origin instead of locally when `remote` is set. */
+    async resetBranch(branchName: string, sha: string, remote: boolean): Promise<void> {
+        const args = remote
+            ? ['push', '--force-with-lease', 'origin', `${sha}:refs/heads/${branchName}`]
+            : ['update-ref', `refs/heads/${branchName}`, sha];
+        try {
+            await this.git(args);
+        } catch (error) {
+            throw new Error(`Failed to reset ${remote ? 'remote' : 'local'} branch ${branchName} to ${sha.substring(0, 7)}: ${error}`);
         }
+    }
 
-        if (this.repoType === 'github') {
-            return this.createGitHubPR(bucket, baseBranch);
-        } else if (this.repoType === 'bitbucket') {
-            return this.createBitbucketPR(bucket, baseBranch);
-        } else {
-            throw new Error('Unsupported repository type for PR creation');
+    async deleteLocalBranch(branchName: string): Promise<void> {
+        try {
+            await this.git(['branch', '-D', branchName]);
+        } catch (error) {
+            throw new Error(`Failed to delete local branch ${branchName}: ${error}`);
         }
     }
 
-    private async createGitHubPR(bucket: PRBucket, baseBranch: string): Promise<string> {
+    async deleteRemoteBranch(branchName: string): Promise<void> {
         try {
-            // baseBranch is already resolved by caller
+            await this.git(['push', 'origin', '--delete', branchName]);
+        } catch (error) {
+            throw new Error(`Failed to delete remote branch ${branchName}: ${error}`);
+        }
+    }
 
-            // Create PR using GitHub CLI
-            const cmd = `gh pr create --title "${bucket.title}" --body "${bucket.description}" --base "${baseBranch}" --head "${bucket.branchName}"`;
+    async closePR(prUrl: string): Promise<void> {
+        // Providers without close support only ever produced a prefilled creation link
+        await (await this.requireProvider()).closePullRequest?.(await this.getForgeContext(), prUrl, 'Rolled back by Multi-PR Manager');
+    }
 
-            const output = execSync(cmd, { 
-                cwd: this.workspaceRoot,
-                encoding: 'utf8'
-            });
+    /** State of an opened PR, or undefined when the forge can't report it. */
+    async getPullRequestStatus(prUrl: string): Promise<PullRequestStatus | undefined> {
+        return (await this.requireProvider()).getPullRequestStatus?.(await this.getForgeContext(), prUrl);
+    }
 
-            // Extract PR URL from output
-            const urlMatch = output.match(/https:\/\/github\.com\/[^\s]+/);
-            if (urlMatch) {
-                return urlMatch[0];
-            }
+    /** Points an opened PR at another base branch. Returns false when the forge can't do it. */
+    async retargetPullRequest(prUrl: string, baseBranch: string): Promise<boolean> {
+        const provider = await this.requireProvider();
+        if (!provider.updatePullRequest || provider.canRetarget === false) {
+            return false;
+        }
+        await provider.updatePullRequest(await this.getForgeContext(), prUrl, { baseBranch });
+        return true;
+    }
 
-            // Fallback: construct URL
-            const repoUrl = await this.getRepositoryUrl();
-            return `${repoUrl}/pulls`;
+    private renderStackTable(stack: StackRow[], current: string): string {
+        return vscode.workspace.getConfiguration('multiPR').get<boolean>('stackTable', true) ? renderStackSection(stack, current) : '';
+    }
 
-        } catch (error) {
-            throw new Error(`Failed to create GitHub PR: ${error}`);
+    /**
+     * Rewrites the stack table in an opened PR's description, keeping the rest of it as
+     * edited on the forge. Returns false when the forge can't read or update descriptions.
+     */
+    async updateStackSection(prUrl: string, stack: StackRow[], current: string): Promise<boolean> {
+        if (!vscode.workspace.getConfiguration('multiPR').get<boolean>('stackTable', true)) {
+            return false;
+        }
+        const provider = await this.requireProvider();
+        const status = await provider.getPullRequestStatus?.(await this.getForgeContext(), prUrl);
+        if (status?.body === undefined || !provider.updatePullRequest) {
+            return false;
+        }
+
+        const body = upsertStackSection(status.body, this.renderStackTable(stack, current));
+        if (body !== status.body) {
+            await provider.updatePullRequest(await this.getForgeContext(), prUrl, { body });
         }
+        return true;
     }
 
-    private async createBitbucketPR(bucket: PRBucket, baseBranch: string): Promise<string> {
-        // For Bitbucket, we'll return the URL to create PR manually
-        // since Bitbucket doesn't have a widely adopted CLI
+    async mergePullRequest(prUrl: string, options: MergeOptions): Promise<void> {
+        const provider = await this.requireProvider();
+        if (!provider.mergePullRequest) {
+            throw new Error(`${provider.displayName} PRs can't be merged from the extension. Merge ${prUrl} on the forge.`);
+        }
+        await provider.mergePullRequest(await this.getForgeContext(), prUrl, options);
+    }
+
+    /**
+     * Undoes every side effect recorded in the journal, most recent first, and
+     * puts the user back on the branch they started from. Returns the steps that failed.
+     */
+    async rollbackRun(journal: RunJournal): Promise<string[]> {
+        const failures: string[] = [];
+
+        for (const entry of journal.getUndoOrder()) {
+            try {
+                switch (entry.kind) {
+                    case 'pr':
+                        if (!entry.manual) {
+                            await this.closePR(entry.url);
+                        }
+                        break;
+                    case 'push':
+                        await this.deleteRemoteBranch(entry.branchName);
+                        break;
+                    case 'branch':
+                        await this.deleteLocalBranch(entry.branchName);
+                        break;
+                    case 'commit':
+                        // Removed together with its branch
+                        break;
+                    case 'update-push':
+                        await this.resetBranch(entry.branchName, entry.previousSha, true);
+                        break;
+                    case 'update':
+                        await this.resetBranch(entry.branchName, entry.previousSha, false);
+                        break;
+                }
+            } catch (error) {
+                failures.push(String(error));
+            }
+        }
+
         try {
-            const repoUrl = await this.getRepositoryUrl();
-            
-            // Construct Bitbucket PR creation URL
-            const prUrl = `${repoUrl}/pull-requests/new?source=${encodeURIComponent(bucket.branchName!)}&dest=${encodeURIComponent(baseBranch)}&title=${encodeURIComponent(bucket.title)}&description=${encodeURIComponent(bucket.description)}`;
-            
-            return prUrl;
+            if (journal.originalBranch && await this.getCurrentBranch() !== journal.originalBranch) {
+                await this.git(['checkout', journal.originalBranch]);
+            }
         } catch (error) {
-            throw new Error(`Failed to create Bitbucket PR URL: ${error}`);
+            failures.push(`Failed to restore branch ${journal.originalBranch}: ${error}`);
+        }
+
+        return failures;
+    }
+
+    /** Values the forge knows for a metadata field; cached per provider for the session. */
+    async getMetadataSuggestions(kind: SuggestionKind): Promise<string[]> {
+        const provider = await this.getProvider();
+        if (!provider?.getSuggestions) {
+            return [];
+        }
+
+        const key = `${provider.id}:${kind}`;
+        if (!this.suggestionCache.has(key)) {
+            this.suggestionCache.set(key, await provider.getSuggestions(await this.getForgeContext(), kind));
+        }
+        return this.suggestionCache.get(key)!;
+    }
+
+    /** PR description templates in the repository, from the forge's template locations. */
+    async getPullRequestTemplates(): Promise<PullRequestTemplate[]> {
+        if (!this.workspaceRoot) {
+            return [];
+        }
+        return findPullRequestTemplates(this.workspaceRoot, (await this.getProvider())?.templatePaths || GITHUB_TEMPLATE_PATHS);
+    }
+
+    /** The bucket description with ${files}, ${diffstat}, ${dependencies}... filled in. */
+    async renderPullRequestBody(bucket: PRBucket, baseBranch: string, dependencies: PRBucket[]): Promise<string> {
+        let diffstat = '';
+        if (bucket.pipeline?.commitSha) {
+            try {
+                diffstat = (await this.git(['show', '--shortstat', '--format=', bucket.pipeline.commitSha], { quiet: true })).trim();
+            } catch {
+                // Commit no longer available
+            }
         }
+
+        return renderPullRequestBody(bucket.description, {
+            title: bucket.title,
+            bucket: bucket.name,
+            description: bucket.description,
+            files: bucket.files.filter(f => !f.stale).map(f => `- \`${f.path}\` (${f.status})`).join('\n'),
+            diffstat,
+            dependencies: dependencies.map(dep => {
+                const link = dep.pipeline?.prUrl && !dep.pipeline.manual ? dep.pipeline.prUrl : dep.branchName || 'not created yet';
+                return `- ${dep.title} (${link})`;
+            }).join('\n'),
+            ticket: findTicket(bucket.name, bucket.title, bucket.branchName),
+            branch: bucket.branchName || '',
+            baseBranch
+        });
+    }
+
+    /** The bucket's PR metadata plus its files' CODEOWNERS as reviewers, when `multiPR.codeOwners.requestReviewers` is on. */
+    async getPullRequestMetadata(bucket: PRBucket): Promise<PullRequestMetadata> {
+        const metadata: PullRequestMetadata = { ...bucket.metadata };
+        const requestReviewers = vscode.workspace.getConfiguration('multiPR').get<boolean>('codeOwners.requestReviewers', true);
+        const codeOwners = requestReviewers ? loadCodeOwners(this.workspaceRoot) : undefined;
+        if (!codeOwners || !(await this.getProvider())?.supportedMetadata?.includes('reviewers')) {
+            return metadata;
+        }
+
+        const owners = bucket.files.filter(f => !f.stale).flatMap(f => codeOwners.getOwners(f.path));
+        const reviewers = [...new Set([...(metadata.reviewers || []), ...ownersToReviewers(owners)])];
+        return { ...metadata, reviewers: reviewers.length > 0 ? reviewers : undefined };
+    }
+
+    /**
+     * Rewrites the title and description of a linked bucket's opened PR from the bucket,
+     * keeping its stack table. Returns false when the forge can't update PRs.
+     */
+    async updatePullRequestFromBucket(bucket: PRBucket, prUrl: string, baseBranch: string, dependencies: PRBucket[] = []): Promise<boolean> {
+        const provider = await this.requireProvider();
+        if (!provider.updatePullRequest) {
+            return false;
+        }
+
+        const rendered = await this.renderPullRequestBody(bucket, baseBranch, dependencies);
+        let body: string | undefined;
+        if (rendered.trim()) {
+            const current = await provider.getPullRequestStatus?.(await this.getForgeContext(), prUrl);
+            body = upsertStackSection(rendered, extractStackSection(current?.body || ''));
+        }
+        await provider.updatePullRequest(await this.getForgeContext(), prUrl, { title: bucket.title, body });
+        return true;
+    }
+
+    /** `stack` lists every PR of the run, for the stack table added to the description. */
+    async createPullRequest(bucket: PRBucket, baseBranch: string, manual: boolean, dependencies: PRBucket[] = [], stack: StackRow[] = []): Promise<PullRequestResult> {
+        if (!this.workspaceRoot || !bucket.branchName) {
+            throw new Error('Invalid bucket or branch name');
+        }
+
+        return (await this.requireProvider()).createPullRequest(await this.getForgeContext(manual), {
+            title: bucket.title,
+            body: upsertStackSection(await this.renderPullRequestBody(bucket, baseBranch, dependencies), this.renderStackTable(stack, bucket.name)),
+            metadata: await this.getPullRequestMetadata(bucket),
+            sourceBranch: bucket.branchName,
+            baseBranch
+        });
     }
-}
\ No newline at end of file
+}
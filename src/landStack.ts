@@ -0,0 +1,113 @@
+import { GitManager } from './gitOperations';
+import { MergeOptions } from './providers/forgeProvider';
+import { RestackResult, StackRestacker } from './restack';
+import { CreatedStack, StackEntry } from './stackStore';
+
+export interface LandOptions {
+    defaultBaseBranch: string;
+    merge: MergeOptions;
+    pollIntervalMs: number;
+    timeoutMs: number;          // per PR, while waiting for it to merge
+    isCancelled: () => boolean;
+    onStackChange: (stack: CreatedStack) => void;
+    report: (message: string) => void;
+}
+
+export type LandResult =
+    | { status: 'done'; landed: string[] }
+    | { status: 'cancelled'; landed: string[]; waitingFor: string }
+    | { status: 'paused'; landed: string[]; restack: Extract<RestackResult, { status: 'paused' }> };
+
+/**
+ * Merges the PRs of a stack parents first. After each merge the remaining
+ * children are restacked: rebased onto the default base without the merged
+ * parent's commits and retargeted, so the next PR can be merged cleanly.
+ */
+export class StackLander {
+    private readonly landed: string[] = [];
+
+    constructor(
+        private readonly gitManager: GitManager,
+        private readonly options: LandOptions
+    ) {}
+
+    async run(stack: CreatedStack): Promise<LandResult> {
+        // Children of PRs merged by hand since the last run go onto the default base first
+        const initial = await this.restack(stack);
+        if (initial.status === 'paused') {
+            return { status: 'paused', landed: this.landed, restack: initial };
+        }
+
+        for (const entry of stack.entries) {
+            if (entry.merged) {
+                continue;
+            }
+            if (!entry.prUrl || entry.manual) {
+                throw new Error(`${entry.bucketName} has no opened PR. Open it on the forge, then land the stack again.`);
+            }
+            if (entry.baseBranch !== this.options.defaultBaseBranch) {
+                throw new Error(`${entry.bucketName} targets ${entry.baseBranch}, not ${this.options.defaultBaseBranch}. Land its parents first.`);
+            }
+
+            const status = await this.gitManager.getPullRequestStatus(entry.prUrl);
+            if (status?.state === 'closed') {
+                throw new Error(`The PR of ${entry.bucketName} was closed without merging: ${entry.prUrl}`);
+            }
+            // Forges that can't retarget leave the PR on its merged parent's branch
+            if (status?.state === 'open' && status.baseBranch && status.baseBranch !== entry.baseBranch) {
+                throw new Error(`The PR of ${entry.bucketName} still targets ${status.baseBranch}. Change its target branch to ${entry.baseBranch} on the forge, then land the stack again: ${entry.prUrl}`);
+            }
+            if (status?.state !== 'merged') {
+                this.options.report(`${this.options.merge.auto ? 'Enabling auto-merge for' : 'Merging'} ${entry.bucketName}...`);
+                await this.gitManager.mergePullRequest(entry.prUrl, this.options.merge);
+
+                if (!await this.waitForMerge(entry)) {
+                    return { status: 'cancelled', landed: this.landed, waitingFor: entry.bucketName };
+                }
+            }
+
+            entry.merged = true;
+            this.landed.push(entry.bucketName);
+            this.options.onStackChange(stack);
+
+            const restacked = await this.restack(stack);
+            if (restacked.status === 'paused') {
+                return { status: 'paused', landed: this.landed, restack: restacked };
+            }
+        }
+
+        return { status: 'done', landed: this.landed };
+    }
+
+    private restack(stack: CreatedStack): Promise<RestackResult> {
+        return new StackRestacker(this.gitManager, {
+            defaultBaseBranch: this.options.defaultBaseBranch,
+            onStackChange: this.options.onStackChange,
+            report: this.options.report
+        }).run(stack);
+    }
+
+    /** Polls the forge until the PR has merged. False when the user cancelled. */
+    private async waitForMerge(entry: StackEntry): Promise<boolean> {
+        const deadline = Date.now() + this.options.timeoutMs;
+        for (;;) {
+            const status = await this.gitManager.getPullRequestStatus(entry.prUrl!);
+            if (!status || status.state === 'merged') {
+                // Forges that can't report a status merged synchronously or failed above
+                return true;
+            }
+            if (status.state === 'closed') {
+                throw new Error(`The PR of ${entry.bucketName} was closed instead of merged: ${entry.prUrl}`);
+            }
+            if (this.options.isCancelled()) {
+                return false;
+            }
+            if (Date.now() > deadline) {
+                throw new Error(`${entry.bucketName} did not merge within ${Math.round(this.options.timeoutMs / 60000)} minutes. Check its PR, then land the stack again.`);
+            }
+
+            this.options.report(`Waiting for ${entry.bucketName} to merge...`);
+            await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+        }
+    }
+}
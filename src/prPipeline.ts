@@ -0,0 +1,277 @@
+import { BucketWorktree, GitManager } from './gitOperations';
+import { RunJournal } from './runJournal';
+import { StackRow } from './stackSection';
+import { PRBucket } from './treeViewProvider';
+
+export type PipelineStage = 'pending' | 'branched' | 'committed' | 'pushed' | 'pr-opened';
+
+export interface PipelineState {
+    stage: PipelineStage;  // last step that completed
+    baseBranch?: string;
+    commitSha?: string;
+    prUrl?: string;
+    manual?: boolean;      // prUrl is a prefilled creation link, not an opened PR
+    baseSha?: string;      // commit the bucket's branch was created from
+    previousSha?: string;  // tip of a linked bucket's existing branch before its commit
+    amended?: boolean;     // the commit replaced the branch's last one, so the push is forced
+    cherryPick?: { worktreePath: string; conflicts: string[] };  // a cherry-pick stopped on a conflict, left for the user
+    lastError?: string;    // error of the last attempt, cleared once a step succeeds
+    updatedAt?: string;
+}
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+    'pending': 'Pending',
+    'branched': 'Branch created',
+    'committed': 'Committed',
+    'pushed': 'Pushed',
+    'pr-opened': 'PR opened'
+};
+
+/** A bucket's commits stopped cherry-picking on a conflict, left in progress in `worktreePath` for the user. */
+export class CherryPickConflictError extends Error {
+    constructor(readonly bucketName: string, readonly worktreePath: string, readonly conflicts: string[]) {
+        super(`Cherry-picking the commits of ${bucketName} conflicts in ${conflicts.join(', ')}`);
+        this.name = 'CherryPickConflictError';
+    }
+}
+
+export type LinkedUpdateMode = 'commit' | 'amend';
+
+export interface PipelineOptions {
+    manual: boolean;  // open prefilled PR pages instead of calling the forge CLI/API
+    updateMode: LinkedUpdateMode;  // how linked buckets add their changes to the existing branch
+    defaultBaseBranch: string;
+    getDependencies: (bucket: PRBucket) => PRBucket[];  // parent buckets, already run earlier in the same order
+    getStack: () => StackRow[];  // every PR of the run as it stands, for the stack table in descriptions
+    onStateChange: (bucket: PRBucket) => void;
+    report: (message: string) => void;
+}
+
+/**
+ * Runs a bucket through branch → commit → push → PR, starting after the last
+ * step recorded in `bucket.pipeline`, so an interrupted run can be resumed
+ * without creating new branches. A bucket linked to an existing PR or branch
+ * commits onto that branch and updates the PR instead.
+ */
+export class PRPipeline {
+    constructor(
+        private readonly gitManager: GitManager,
+        private readonly journal: RunJournal,
+        private readonly options: PipelineOptions
+    ) {}
+
+    /** `index` is the bucket's 1-based position in the run, for the ${index} branch name token. */
+    async runBucket(bucket: PRBucket, index: number): Promise<PipelineState> {
+        const state: PipelineState = bucket.pipeline || { stage: 'pending' };
+        bucket.pipeline = state;
+        let worktree: BucketWorktree | undefined;
+
+        try {
+            if (state.stage === 'pending' && bucket.target) {
+                bucket.branchName = bucket.target.branchName;
+                this.advance(bucket, { stage: 'branched', baseBranch: bucket.target.baseBranch });
+            }
+
+            if (state.stage === 'pending') {
+                const baseBranch = await this.resolveBase(bucket);
+                this.options.report(`Creating branch for ${bucket.name}...`);
+                worktree = await this.gitManager.createBranchForBucket(bucket, index, baseBranch);
+                bucket.branchName = worktree.branchName;
+                this.journal.record({ kind: 'branch', bucketName: bucket.name, branchName: worktree.branchName });
+                this.advance(bucket, { stage: 'branched', baseBranch, baseSha: await this.gitManager.resolveCommit(`refs/heads/${worktree.branchName}`) });
+            }
+
+            const branchName = bucket.branchName!;
+
+            if (state.stage === 'branched' && bucket.target) {
+                if (bucket.commits?.some(c => !c.stale)) {
+                    throw new Error(`${bucket.name} is linked to ${branchName}: only files can be added to an existing branch. Move its commits to another bucket.`);
+                }
+                this.options.report(`Checking out ${branchName} for ${bucket.name}...`);
+                worktree = await this.gitManager.openExistingBranch(branchName);
+                const previousSha = (await this.gitManager.resolveCommit(`refs/heads/${branchName}`))!;
+
+                this.options.report(`Staging files for ${bucket.name}...`);
+                await this.gitManager.stageFilesForBucket(bucket, worktree.path);
+
+                // Amending the base's own commit would rewrite history the PR doesn't own
+                const amend = this.options.updateMode === 'amend'
+                    && await this.gitManager.hasOwnCommits(worktree.path, state.baseBranch || this.options.defaultBaseBranch);
+                this.options.report(`${amend ? 'Amending' : 'Committing to'} ${branchName} for ${bucket.name}...`);
+                const sha = await this.gitManager.commitBucket(bucket, worktree.path, amend);
+                this.journal.record({ kind: 'update', bucketName: bucket.name, branchName, previousSha });
+                this.advance(bucket, { stage: 'committed', commitSha: sha, previousSha, amended: amend || undefined });
+            }
+
+            if (state.stage === 'branched' && state.cherryPick) {
+                const paused = state.cherryPick;
+                if (await this.gitManager.isCherryPickInProgress(paused.worktreePath)) {
+                    throw new CherryPickConflictError(bucket.name, paused.worktreePath, paused.conflicts);
+                }
+
+                // The user finished the cherry-pick in the worktree, or aborted or skipped commits there
+                worktree = { branchName, path: paused.worktreePath };
+                state.cherryPick = undefined;
+                const expected = (bucket.commits || []).filter(c => !c.stale).length;
+                if (state.baseSha && await this.gitManager.countCommitsSince(worktree.path, state.baseSha) < expected) {
+                    // Start the picks over on the next resume rather than open a PR without them
+                    await this.gitManager.resetWorktree(worktree.path, state.baseSha);
+                    throw new Error(`The cherry-pick into ${branchName} was aborted or skipped commits, so some of the bucket's ${expected} commit(s) are missing. Run "Resume PR Creation" to pick them again, or move them out of the bucket.`);
+                }
+                await this.commitFiles(bucket, worktree);
+            }
+
+            if (state.stage === 'branched') {
+                worktree = worktree || await this.gitManager.openWorktree(branchName);
+
+                const commits = (bucket.commits || []).filter(c => !c.stale);
+                if (commits.length > 0) {
+                    this.options.report(`Cherry-picking ${commits.length} commit(s) into ${bucket.name}...`);
+                    const conflicts = await this.gitManager.cherryPickCommits(worktree.path, commits.map(c => c.sha));
+                    if (conflicts.length > 0) {
+                        state.cherryPick = { worktreePath: worktree.path, conflicts };
+                        const paused = worktree;
+                        worktree = undefined;  // Left for the user to resolve
+                        throw new CherryPickConflictError(bucket.name, paused.path, conflicts);
+                    }
+                }
+
+                await this.commitFiles(bucket, worktree);
+            }
+
+            if (worktree) {
+                await this.gitManager.removeWorktree(worktree);
+                worktree = undefined;
+            }
+
+            if (state.stage === 'committed') {
+                // Offline providers keep everything local
+                if ((await this.gitManager.getProvider())?.requiresPush !== false && bucket.target) {
+                    this.options.report(`Pushing ${bucket.name} to ${branchName}...`);
+                    if (state.amended) {
+                        await this.gitManager.forcePushBranch(branchName);
+                    } else {
+                        await this.gitManager.pushBranch(branchName);
+                    }
+                    this.journal.record({ kind: 'update-push', bucketName: bucket.name, branchName, previousSha: state.previousSha! });
+                } else if ((await this.gitManager.getProvider())?.requiresPush !== false) {
+                    this.options.report(`Pushing ${bucket.name}...`);
+                    await this.gitManager.pushBranch(branchName);
+                    this.journal.record({ kind: 'push', bucketName: bucket.name, branchName });
+                }
+                this.advance(bucket, { stage: 'pushed' });
+            }
+
+            if (state.stage === 'pushed' && bucket.target?.prUrl) {
+                const prUrl = bucket.target.prUrl;
+                this.options.report(`Updating PR for ${bucket.name}...`);
+                const base = state.baseBranch || this.options.defaultBaseBranch;
+                if (!await this.gitManager.updatePullRequestFromBucket(bucket, prUrl, base, this.options.getDependencies(bucket))) {
+                    this.options.report(`${bucket.name}: the forge can't edit PRs, title and description left as they were`);
+                }
+                this.advance(bucket, { stage: 'pr-opened', prUrl, manual: false });
+            }
+
+            if (state.stage === 'pushed') {
+                this.options.report(`Creating PR for ${bucket.name}...`);
+                const base = state.baseBranch || this.options.defaultBaseBranch;
+                const { url: prUrl, manual } = await this.gitManager.createPullRequest(bucket, base, this.options.manual, this.options.getDependencies(bucket), this.options.getStack());
+                this.journal.record({ kind: 'pr', bucketName: bucket.name, branchName, url: prUrl, manual });
+                this.advance(bucket, { stage: 'pr-opened', prUrl, manual });
+            }
+
+            return state;
+        } catch (error) {
+            state.lastError = String(error);
+            state.updatedAt = new Date().toISOString();
+            this.options.onStateChange(bucket);
+            throw error;
+        } finally {
+            if (worktree) {
+                await this.gitManager.removeWorktree(worktree);
+            }
+        }
+    }
+
+    /** Commits the bucket's files on top of its cherry-picked commits; without files the last picked commit is the bucket's. */
+    private async commitFiles(bucket: PRBucket, worktree: BucketWorktree): Promise<void> {
+        let sha: string;
+        if (bucket.files.some(f => !f.stale)) {
+            this.options.report(`Staging files for ${bucket.name}...`);
+            await this.gitManager.stageFilesForBucket(bucket, worktree.path);
+
+            this.options.report(`Committing ${bucket.name}...`);
+            sha = await this.gitManager.commitBucket(bucket, worktree.path);
+        } else {
+            sha = (await this.gitManager.resolveCommit(`refs/heads/${worktree.branchName}`))!;
+        }
+        this.journal.record({ kind: 'commit', bucketName: bucket.name, branchName: worktree.branchName, sha });
+        this.advance(bucket, { stage: 'committed', commitSha: sha });
+    }
+
+    /**
+     * The branch a bucket starts from: the default base, its parent's branch, or for
+     * several parents an integration branch merging them all.
+     */
+    private async resolveBase(bucket: PRBucket): Promise<string> {
+        const parentBranches = [...new Set(this.options.getDependencies(bucket)
+            .map(parent => parent.branchName)
+            .filter((branch): branch is string => !!branch))];
+
+        if (parentBranches.length === 0) {
+            return this.options.defaultBaseBranch;
+        }
+        if (parentBranches.length === 1) {
+            return parentBranches[0];
+        }
+
+        this.options.report(`Merging parents of ${bucket.name} into an integration branch...`);
+        const { branchName, created } = await this.gitManager.createIntegrationBranch(bucket.name, parentBranches);
+        if (created) {
+            this.journal.record({ kind: 'branch', bucketName: bucket.name, branchName });
+        }
+        if ((await this.gitManager.getProvider())?.requiresPush !== false) {
+            await this.gitManager.pushBranch(branchName);
+            if (created) {
+                this.journal.record({ kind: 'push', bucketName: bucket.name, branchName });
+            }
+        }
+        return branchName;
+    }
+
+    private advance(bucket: PRBucket, update: Partial<PipelineState>): void {
+        Object.assign(bucket.pipeline!, update, { lastError: undefined, updatedAt: new Date().toISOString() });
+        this.options.onStateChange(bucket);
+    }
+}
+
+/**
+ * Journal of what unfinished runs left behind in the given buckets (branches, pushes,
+ * commits onto linked branches), so "Start Over" can undo it before running them again.
+ */
+export function journalUnfinishedRuns(buckets: PRBucket[]): RunJournal {
+    const journal = new RunJournal('');
+    for (const bucket of buckets) {
+        const state = bucket.pipeline;
+        const branchName = bucket.branchName;
+        if (!state || !branchName || state.stage === 'pending' || state.stage === 'pr-opened') {
+            continue;
+        }
+
+        const pushed = state.stage === 'pushed';
+        if (bucket.target) {
+            if (state.previousSha) {
+                journal.record({ kind: 'update', bucketName: bucket.name, branchName, previousSha: state.previousSha });
+                if (pushed) {
+                    journal.record({ kind: 'update-push', bucketName: bucket.name, branchName, previousSha: state.previousSha });
+                }
+            }
+        } else {
+            journal.record({ kind: 'branch', bucketName: bucket.name, branchName });
+            if (pushed) {
+                journal.record({ kind: 'push', bucketName: bucket.name, branchName });
+            }
+        }
+    }
+    return journal;
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Pull request description templates checked into the repository.
+
+/**
+ * Where GitHub looks for templates. Entries ending in "/" are directories
+ * holding several templates. Also used for forges that don't declare their own.
+ */
+export const GITHUB_TEMPLATE_PATHS = [
+    '.github/pull_request_template.md',
+    '.github/PULL_REQUEST_TEMPLATE.md',
+    'pull_request_template.md',
+    'PULL_REQUEST_TEMPLATE.md',
+    'docs/pull_request_template.md',
+    'docs/PULL_REQUEST_TEMPLATE.md',
+    '.github/PULL_REQUEST_TEMPLATE/',
+    'PULL_REQUEST_TEMPLATE/',
+    'docs/PULL_REQUEST_TEMPLATE/'
+];
+
+export interface PullRequestTemplate {
+    name: string;          // file name, shown in the template picker
+    relativePath: string;
+    content: string;
+}
+
+export interface PullRequestBodyValues {
+    title: string;
+    bucket: string;
+    description: string;
+    files: string;         // bulleted list of the bucket's files
+    diffstat: string;      // e.g. "3 files changed, 10 insertions(+), 2 deletions(-)"
+    dependencies: string;  // bulleted list of parent buckets and their PRs
+    ticket: string;
+    branch: string;
+    baseBranch: string;
+}
+
+export function findPullRequestTemplates(repoRoot: string, locations: string[]): PullRequestTemplate[] {
+    const templates: PullRequestTemplate[] = [];
+    const seen = new Set<string>();
+
+    const add = (relativePath: string) => {
+        const fullPath = path.join(repoRoot, relativePath);
+        // Case-insensitive file systems list the upper and lower case variants twice; they are the same file
+        const stats = fs.statSync(fullPath);
+        const key = `${stats.dev}:${stats.ino}`;
+        if (seen.has(key)) {
+            return;
+        }
+        seen.add(key);
+        templates.push({ name: path.basename(relativePath), relativePath, content: fs.readFileSync(fullPath, 'utf8') });
+    };
+
+    for (const location of locations) {
+        const fullPath = path.join(repoRoot, location);
+        try {
+            if (location.endsWith('/')) {
+                if (!fs.statSync(fullPath).isDirectory()) {
+                    continue;
+                }
+                for (const entry of fs.readdirSync(fullPath).sort()) {
+                    if (/\.(md|txt)$/i.test(entry) && fs.statSync(path.join(fullPath, entry)).isFile()) {
+                        add(path.posix.join(location, entry));
+                    }
+                }
+            } else if (fs.statSync(fullPath).isFile()) {
+                add(location);
+            }
+        } catch {
+            // Location doesn't exist in this repository
+        }
+    }
+
+    return templates;
+}
+
+/**
+ * Fills `${name}` placeholders in a bucket description. Unknown placeholders are
+ * kept as they are, so descriptions without placeholders pass through unchanged.
+ */
+export function renderPullRequestBody(body: string, values: PullRequestBodyValues): string {
+    const lookup: Record<keyof PullRequestBodyValues, string> = values;
+    // Own properties only: `${constructor}` or `${toString}` are not placeholders
+    return body.replace(/\$\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(lookup, name) ? lookup[name as keyof PullRequestBodyValues] : match);
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { GitManager } from './gitOperations';
+import { PullRequestStatus } from './providers/forgeProvider';
+import { CreatedStack, StackStore } from './stackStore';
+
+export type TrackedStatus = PullRequestStatus | { error: string };
+
+/**
+ * Live status (CI checks, review decision, mergeability, draft) of the PRs in the
+ * Created PRs section, fetched from the forge on refresh and on a timer while the
+ * view is visible. Merged PRs are remembered in their stack and not queried again.
+ */
+export class PullRequestTracker implements vscode.Disposable {
+    private readonly statuses = new Map<string, TrackedStatus>();
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changed.event;
+
+    private refreshing: Promise<void> | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private readonly storeListener: vscode.Disposable;
+
+    constructor(
+        private readonly gitManager: GitManager,
+        private readonly stackStore: StackStore
+    ) {
+        this.storeListener = stackStore.onDidChange(() => this.changed.fire());
+    }
+
+    getStacks(): CreatedStack[] {
+        return this.stackStore.getStacks();
+    }
+
+    getStatus(prUrl: string): TrackedStatus | undefined {
+        return this.statuses.get(prUrl);
+    }
+
+    /** Queries every open PR of every stack; concurrent calls share one refresh. */
+    refresh(): Promise<void> {
+        if (!this.refreshing) {
+            this.refreshing = this.queryAll().finally(() => {
+                this.refreshing = undefined;
+            });
+        }
+        return this.refreshing;
+    }
+
+    private async queryAll(): Promise<void> {
+        for (const stack of this.stackStore.getStacks()) {
+            const merged: string[] = [];
+            for (const entry of stack.entries.filter(e => e.prUrl && !e.manual && !e.merged)) {
+                try {
+                    const status = await this.gitManager.getPullRequestStatus(entry.prUrl!);
+                    if (!status) {
+                        continue;
+                    }
+                    this.statuses.set(entry.prUrl!, status);
+                    if (status.state === 'merged') {
+                        merged.push(entry.bucketName);
+                    }
+                } catch (error) {
+                    this.statuses.set(entry.prUrl!, { error: error instanceof Error ? error.message : String(error) });
+                }
+                this.changed.fire();
+            }
+
+            // Re-read the stack: a restack may have saved it while the forge was queried
+            const current = this.stackStore.getStacks().find(s => s.id === stack.id);
+            if (current && merged.length > 0) {
+                current.entries.filter(e => merged.includes(e.bucketName)).forEach(e => { e.merged = true; });
+                await this.stackStore.saveStack(current);
+            }
+        }
+    }
+
+    /** Refreshes every `intervalSeconds` until stopped; 0 only stops polling. */
+    startPolling(intervalSeconds: number): void {
+        this.stopPolling();
+        if (intervalSeconds > 0) {
+            this.refresh();
+            this.timer = setInterval(() => this.refresh(), intervalSeconds * 1000);
+        }
+    }
+
+    stopPolling(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.stopPolling();
+        this.storeListener.dispose();
+        this.changed.dispose();
+    }
+}
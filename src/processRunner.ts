@@ -0,0 +1,170 @@
+import { spawn } from 'child_process';
+import { AsyncLocalStorage } from 'async_hooks';
+import * as vscode from 'vscode';
+
+export interface RunOptions {
+    cwd: string;
+    input?: string;                    // written to stdin, e.g. a patch or a commit message
+    env?: NodeJS.ProcessEnv;           // added to the extension host's environment
+    timeoutMs?: number;                // overrides multiPR.commandTimeoutSeconds; 0 waits forever
+    token?: vscode.CancellationToken;  // overrides the token of the surrounding withCancellation()
+    quiet?: boolean;                   // stdout is data (diffs, JSON, lists): only stderr is logged
+}
+
+export type ProcessFailure = 'exit' | 'timeout' | 'cancelled' | 'spawn';
+
+/** A command that could not be started, exited non-zero, timed out or was cancelled. */
+export class ProcessError extends Error {
+    constructor(
+        readonly commandLine: string,
+        readonly reason: ProcessFailure,
+        readonly exitCode: number | null,
+        readonly stderr: string,
+        detail?: string
+    ) {
+        super(ProcessError.describe(commandLine, reason, exitCode, stderr, detail));
+        this.name = 'ProcessError';
+    }
+
+    private static describe(commandLine: string, reason: ProcessFailure, exitCode: number | null, stderr: string, detail?: string): string {
+        switch (reason) {
+            case 'spawn': return `${commandLine} could not be started: ${detail}`;
+            case 'timeout': return `${commandLine} timed out after ${detail}`;
+            case 'cancelled': return `${commandLine} was cancelled`;
+            default: return `${commandLine} exited with code ${exitCode}${stderr.trim() ? `: ${stderr.trim()}` : ''}`;
+        }
+    }
+}
+
+// Shows an argument the way it would be typed, for the log and error messages
+function displayArg(arg: string): string {
+    return /^[\w@%+=:,./^~-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Runs git and forge CLIs without a shell: arguments are passed as they are, so quotes,
+ * backticks or `$()` in titles, descriptions and paths are never interpreted. Commands
+ * run asynchronously, are killed on timeout or cancellation, and their output is
+ * written to the "Multi-PR Manager" output channel.
+ */
+export class ProcessRunner implements vscode.Disposable {
+    private readonly cancellation = new AsyncLocalStorage<vscode.CancellationToken>();
+
+    constructor(private readonly output: vscode.OutputChannel) {}
+
+    /** Runs `work`, cancelling every command it starts (however deeply awaited) once `token` is cancelled. */
+    withCancellation<T>(token: vscode.CancellationToken, work: () => Promise<T>): Promise<T> {
+        return this.cancellation.run(token, work);
+    }
+
+    /** Runs a command and resolves with its stdout; rejects with a ProcessError unless it exits with 0. */
+    run(command: string, args: string[], options: RunOptions): Promise<string> {
+        const commandLine = [command, ...args].map(displayArg).join(' ');
+        const token = options.token || this.cancellation.getStore();
+        const timeoutMs = options.timeoutMs ?? vscode.workspace.getConfiguration('multiPR').get<number>('commandTimeoutSeconds', 300) * 1000;
+
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new ProcessError(commandLine, 'cancelled', null, ''));
+        }
+        this.output.appendLine(`> ${commandLine}  (in ${options.cwd})`);
+
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, args, {
+                cwd: options.cwd,
+                env: options.env ? { ...process.env, ...options.env } : process.env,
+                windowsHide: true
+            });
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+            let failure: ProcessFailure | undefined;
+            let lastLogged = '\n';
+            const log = (text: string) => {
+                this.output.append(text);
+                lastLogged = text;
+            };
+
+            const stop = (reason: ProcessFailure) => {
+                failure = reason;
+                child.kill();
+            };
+            const timer = timeoutMs > 0 ? setTimeout(() => stop('timeout'), timeoutMs) : undefined;
+            const cancelListener = token?.onCancellationRequested(() => stop('cancelled'));
+            const cleanUp = () => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                cancelListener?.dispose();
+            };
+
+            child.stdout.on('data', (chunk: Buffer) => {
+                stdout.push(chunk);
+                if (!options.quiet) {
+                    log(chunk.toString('utf8'));
+                }
+            });
+            child.stderr.on('data', (chunk: Buffer) => {
+                stderr.push(chunk);
+                log(chunk.toString('utf8'));
+            });
+
+            child.on('error', error => {
+                failure = 'spawn';
+                cleanUp();
+                this.output.appendLine(`! ${error.message}`);
+                reject(new ProcessError(commandLine, 'spawn', null, '', error.message));
+            });
+            child.on('close', code => {
+                if (failure === 'spawn') {
+                    return;  // Already rejected by the error handler
+                }
+                cleanUp();
+                if (!lastLogged.endsWith('\n')) {
+                    this.output.appendLine('');
+                }
+                const errorText = Buffer.concat(stderr).toString('utf8');
+                if (failure) {
+                    this.output.appendLine(`! ${failure === 'timeout' ? 'Timed out' : 'Cancelled'}`);
+                    reject(new ProcessError(commandLine, failure, code, errorText, `${Math.round(timeoutMs / 1000)}s`));
+                } else if (code !== 0) {
+                    this.output.appendLine(`! Exit code ${code}`);
+                    reject(new ProcessError(commandLine, 'exit', code, errorText));
+                } else {
+                    resolve(Buffer.concat(stdout).toString('utf8'));
+                }
+            });
+
+            // A command that exits before reading stdin makes the write fail; its exit code tells what happened
+            child.stdin.on('error', () => undefined);
+            child.stdin.end(options.input);
+        });
+    }
+
+    /**
+     * Whether a check command (e.g. `git merge-base --is-ancestor`) exits with 0.
+     * Only a non-zero exit means false; a timeout, cancellation or missing command still rejects.
+     */
+    async succeeds(command: string, args: string[], options: RunOptions): Promise<boolean> {
+        try {
+            await this.run(command, args, { ...options, quiet: true });
+            return true;
+        } catch (error) {
+            if (error instanceof ProcessError && error.reason === 'exit') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /** Shorthand for `run('git', args, options)`. */
+    git(args: string[], options: RunOptions): Promise<string> {
+        return this.run('git', args, options);
+    }
+
+    show(): void {
+        this.output.show(true);
+    }
+
+    dispose(): void {
+        this.output.dispose();
+    }
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import { ProcessRunner, RunOptions } from '../processRunner';
+import { AzureRepo, parseAzureRemote } from '../remoteUrl';
+import { ForgeAuthStatus, ForgeContext, ForgeProvider, MergeOptions, MetadataField, OpenPullRequest, PullRequestRequest, PullRequestResult, PullRequestStatus, PullRequestUpdate } from './forgeProvider';
+
+interface AzurePullRequest {
+    pullRequestId: number;
+    title: string;
+    status: string;
+    isDraft?: boolean;
+    sourceRefName: string;
+    targetRefName: string;
+    description?: string;
+    mergeStatus?: string;  // succeeded, conflicts, queued...
+    reviewers?: { vote: number }[];
+}
+
+/**
+ * Azure DevOps Repos. Uses `az repos` (Azure CLI with the azure-devops
+ * extension) when installed, otherwise the PR creation page.
+ */
+export class AzureDevOpsProvider implements ForgeProvider {
+    readonly id = 'azure';
+    readonly displayName = 'Azure DevOps';
+    // Default templates, then the folders holding additional ones
+    readonly templatePaths = [
+        '.azuredevops/pull_request_template.md',
+        '.vsts/pull_request_template.md',
+        'docs/pull_request_template.md',
+        'pull_request_template.md',
+        '.azuredevops/pull_request_template/',
+        '.vsts/pull_request_template/',
+        'docs/pull_request_template/',
+        'pull_request_template/'
+    ];
+
+    // Azure DevOps PRs have no assignees or milestones
+    readonly supportedMetadata: MetadataField[] = ['reviewers', 'labels', 'draft'];
+
+    readonly canRetarget = false;  // az repos pr update has no --target-branch
+
+    private cliReady: boolean | undefined;
+
+    constructor(private readonly runner: ProcessRunner) {}
+
+    private az(context: ForgeContext, args: string[], options: Partial<RunOptions> = {}): Promise<string> {
+        return this.runner.run('az', args, { cwd: context.workspaceRoot, ...options });
+    }
+
+    matches(remoteUrl: string): boolean {
+        return !!parseAzureRemote(remoteUrl);
+    }
+
+    private getRepo(context: ForgeContext): AzureRepo {
+        const azure = parseAzureRemote(context.remoteUrl);
+        if (!azure) {
+            throw new Error('Could not parse the Azure DevOps remote URL');
+        }
+        return azure;
+    }
+
+    async checkAuth(context: ForgeContext): Promise<ForgeAuthStatus> {
+        // The Azure CLI is optional: without it we open the PR creation page
+        this.cliReady = false;
+        if (context.manual || !vscode.workspace.getConfiguration('multiPR').get<boolean>('useAzureCLI', true)) {
+            return { automatic: false };
+        }
+
+        try {
+            await this.az(context, ['--version'], { quiet: true });
+            await this.az(context, ['extension', 'show', '--name', 'azure-devops'], { quiet: true });
+            this.cliReady = true;
+        } catch {
+            // Not installed, or the azure-devops extension is missing
+        }
+        return { automatic: this.cliReady };
+    }
+
+    async createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult> {
+        const azure = this.getRepo(context);
+
+        if (this.cliReady === undefined) {
+            await this.checkAuth(context);
+        }
+
+        if (!context.manual && this.cliReady) {
+            try {
+                const args = ['repos', 'pr', 'create', '--organization', azure.organizationUrl, '--project', azure.project, '--repository', azure.repository,
+                    '--source-branch', request.sourceBranch, '--target-branch', request.baseBranch, '--title', request.title, '--description', request.body, '--output', 'json'];
+                const metadata = request.metadata || {};
+                if (metadata.reviewers?.length) {
+                    args.push('--reviewers', ...metadata.reviewers);
+                }
+                if (metadata.labels?.length) {
+                    args.push('--labels', ...metadata.labels);
+                }
+                if (metadata.draft) {
+                    args.push('--draft', 'true');
+                }
+
+                const output = await this.az(context, args, { quiet: true });
+
+                const pr = JSON.parse(output) as { pullRequestId?: number };
+                if (pr.pullRequestId) {
+                    return { url: `${azure.webUrl}/pullrequest/${pr.pullRequestId}`, manual: false };
+                }
+                return { url: `${azure.webUrl}/pullrequests`, manual: false };
+            } catch (error) {
+                throw new Error(`Failed to create Azure DevOps PR: ${error}`);
+            }
+        }
+
+        // Azure DevOps only prefills the branches; title and description are entered on the page
+        const query = `sourceRef=${encodeURIComponent(request.sourceBranch)}&targetRef=${encodeURIComponent(request.baseBranch)}`;
+        return { url: `${azure.webUrl}/pullrequestcreate?${query}`, manual: true };
+    }
+
+    private getPullRequestId(prUrl: string): string {
+        const id = prUrl.match(/\/pullrequest\/(\d+)/)?.[1];
+        if (!id) {
+            throw new Error(`Not an Azure DevOps pull request URL: ${prUrl}`);
+        }
+        return id;
+    }
+
+    async updatePullRequest(context: ForgeContext, prUrl: string, update: PullRequestUpdate): Promise<void> {
+        const azure = this.getRepo(context);
+        if (update.baseBranch !== undefined) {
+            throw new Error('Changing the target branch of an Azure DevOps PR is not supported by az repos');
+        }
+
+        const args = ['repos', 'pr', 'update', '--id', this.getPullRequestId(prUrl), '--organization', azure.organizationUrl];
+        if (update.title !== undefined) {
+            args.push('--title', update.title);
+        }
+        if (update.body !== undefined) {
+            args.push('--description', update.body);
+        }
+
+        try {
+            await this.az(context, args, { quiet: true });
+        } catch (error) {
+            throw new Error(`Failed to update Azure DevOps PR ${prUrl}: ${error}`);
+        }
+    }
+
+    async getPullRequestStatus(context: ForgeContext, prUrl: string): Promise<PullRequestStatus> {
+        const azure = this.getRepo(context);
+        try {
+            const output = await this.az(context, ['repos', 'pr', 'show', '--id', this.getPullRequestId(prUrl), '--organization', azure.organizationUrl, '--output', 'json'], { quiet: true });
+            const pr = JSON.parse(output) as AzurePullRequest;
+            // Votes: 10 approved, 5 approved with suggestions, -5 waiting for author, -10 rejected
+            const votes = (pr.reviewers || []).map(reviewer => reviewer.vote);
+            return {
+                url: prUrl,
+                state: pr.status === 'completed' ? 'merged' : pr.status === 'active' ? 'open' : 'closed',
+                isDraft: pr.isDraft,
+                baseBranch: pr.targetRefName?.replace(/^refs\/heads\//, ''),
+                body: pr.description ?? '',
+                reviewDecision: votes.some(vote => vote < 0) ? 'changes-requested'
+                    : votes.some(vote => vote > 0) ? 'approved'
+                    : votes.length > 0 ? 'review-required'
+                    : undefined,
+                mergeable: pr.mergeStatus === 'succeeded' ? 'mergeable' : pr.mergeStatus === 'conflicts' ? 'conflicting' : 'unknown'
+            };
+        } catch (error) {
+            throw new Error(`Failed to query Azure DevOps PR ${prUrl}: ${error}`);
+        }
+    }
+
+    async listOpenPullRequests(context: ForgeContext): Promise<OpenPullRequest[]> {
+        const azure = this.getRepo(context);
+        try {
+            const output = await this.az(context, ['repos', 'pr', 'list', '--status', 'active', '--top', '100', '--organization', azure.organizationUrl,
+                '--project', azure.project, '--repository', azure.repository, '--output', 'json'], { quiet: true });
+            const prs = JSON.parse(output) as AzurePullRequest[];
+            return prs.map(pr => ({
+                url: `${azure.webUrl}/pullrequest/${pr.pullRequestId}`,
+                title: pr.title,
+                sourceBranch: pr.sourceRefName.replace(/^refs\/heads\//, ''),
+                baseBranch: pr.targetRefName.replace(/^refs\/heads\//, ''),
+                isDraft: pr.isDraft
+            }));
+        } catch (error) {
+            throw new Error(`Failed to list Azure DevOps PRs: ${error}`);
+        }
+    }
+
+    async closePullRequest(context: ForgeContext, prUrl: string): Promise<void> {
+        const azure = this.getRepo(context);
+        try {
+            await this.az(context, ['repos', 'pr', 'update', '--id', this.getPullRequestId(prUrl), '--status', 'abandoned', '--organization', azure.organizationUrl], { quiet: true });
+        } catch (error) {
+            throw new Error(`Failed to abandon Azure DevOps PR ${prUrl}: ${error}`);
+        }
+    }
+
+    async mergePullRequest(context: ForgeContext, prUrl: string, options: MergeOptions): Promise<void> {
+        const azure = this.getRepo(context);
+        if (options.method === 'rebase') {
+            throw new Error('az repos cannot complete a PR with a rebase. Use the "merge" or "squash" method');
+        }
+
+        // Auto-complete finishes the PR once its policies pass
+        const completion = options.auto ? ['--auto-complete', 'true'] : ['--status', 'completed'];
+        try {
+            await this.az(context, ['repos', 'pr', 'update', '--id', this.getPullRequestId(prUrl), ...completion,
+                '--squash', String(options.method === 'squash'), '--organization', azure.organizationUrl], { quiet: true });
+        } catch (error) {
+            throw new Error(`Failed to complete Azure DevOps PR ${prUrl}: ${error}`);
+        }
+    }
+
+    getRepositoryWebUrl(context: ForgeContext): string {
+        return parseAzureRemote(context.remoteUrl)?.webUrl || context.remoteUrl;
+    }
+}
@@ -0,0 +1,33 @@
+import { parseRemoteUrl } from '../remoteUrl';
+import { ForgeAuthStatus, ForgeContext, ForgeProvider, PullRequestRequest, PullRequestResult } from './forgeProvider';
+import { getMappedWebUrl } from './hostMappings';
+
+/**
+ * Bitbucket Cloud. Bitbucket doesn't have a widely adopted CLI like GitHub, so
+ * PRs are opened through a prefilled creation URL.
+ */
+export class BitbucketProvider implements ForgeProvider {
+    readonly id = 'bitbucket';
+    readonly displayName = 'Bitbucket';
+
+    matches(remoteUrl: string): boolean {
+        return parseRemoteUrl(remoteUrl)?.host === 'bitbucket.org';
+    }
+
+    async checkAuth(): Promise<ForgeAuthStatus> {
+        return { automatic: false };
+    }
+
+    async createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult> {
+        const repoUrl = this.getRepositoryWebUrl(context);
+
+        // Construct Bitbucket PR creation URL
+        const prUrl = `${repoUrl}/pull-requests/new?source=${encodeURIComponent(request.sourceBranch)}&dest=${encodeURIComponent(request.baseBranch)}&title=${encodeURIComponent(request.title)}&description=${encodeURIComponent(request.body)}`;
+
+        return { url: prUrl, manual: true };
+    }
+
+    getRepositoryWebUrl(context: ForgeContext): string {
+        return getMappedWebUrl(context.remoteUrl);
+    }
+}
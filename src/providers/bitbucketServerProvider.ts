@@ -0,0 +1,40 @@
+import { parseBitbucketServerRemote, parseRemoteUrl } from '../remoteUrl';
+import { ForgeAuthStatus, ForgeContext, ForgeProvider, PullRequestRequest, PullRequestResult } from './forgeProvider';
+import { findHostMapping } from './hostMappings';
+
+/**
+ * Bitbucket Server / Data Center. HTTPS remotes under /scm/ are detected on their
+ * own; SSH remotes (usually port 7999) need a `multiPR.hostMappings` entry.
+ * PRs are opened through the prefilled "create pull request" page.
+ */
+export class BitbucketServerProvider implements ForgeProvider {
+    readonly id = 'bitbucket-server';
+    readonly displayName = 'Bitbucket Data Center';
+
+    matches(remoteUrl: string): boolean {
+        const remote = parseRemoteUrl(remoteUrl);
+        return (remote?.protocol === 'https' || remote?.protocol === 'http') && !!parseBitbucketServerRemote(remoteUrl);
+    }
+
+    async checkAuth(): Promise<ForgeAuthStatus> {
+        return { automatic: false };
+    }
+
+    async createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult> {
+        const query = [
+            'create',
+            `sourceBranch=${encodeURIComponent(`refs/heads/${request.sourceBranch}`)}`,
+            `targetBranch=${encodeURIComponent(`refs/heads/${request.baseBranch}`)}`
+        ].join('&');
+
+        return { url: `${this.getRepositoryWebUrl(context)}/pull-requests?${query}`, manual: true };
+    }
+
+    getRepositoryWebUrl(context: ForgeContext): string {
+        const repo = parseBitbucketServerRemote(context.remoteUrl, findHostMapping(context.remoteUrl)?.webUrl);
+        if (!repo) {
+            throw new Error(`Not a Bitbucket Data Center remote: ${context.remoteUrl}`);
+        }
+        return repo.webUrl;
+    }
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+
+// Contract between the extension and a code forge (GitHub, GitLab, ...).
+// Third-party extensions can implement it and register through the API returned by activate().
+
+export interface ForgeContext {
+    workspaceRoot: string;
+    remoteUrl: string;   // URL of the "origin" remote
+    manual: boolean;     // user chose to open PRs by hand: return a prefilled link instead of calling a CLI/API
+}
+
+export interface ForgeAuthStatus {
+    automatic: boolean;  // PRs can be opened without user interaction
+    problem?: string;    // why automatic creation is unavailable, when the user asked for it
+    installUrl?: string;
+}
+
+export interface PullRequestMetadata {
+    reviewers?: string[];
+    assignees?: string[];
+    labels?: string[];
+    milestone?: string;
+    draft?: boolean;
+}
+
+export type MetadataField = keyof PullRequestMetadata;
+
+/** Fields whose values can be suggested from the forge (collaborators, labels, milestones). */
+export type SuggestionKind = 'reviewers' | 'assignees' | 'labels' | 'milestone';
+
+export interface PullRequestRequest {
+    title: string;
+    body: string;
+    sourceBranch: string;
+    baseBranch: string;
+    metadata?: PullRequestMetadata;
+}
+
+export interface PullRequestResult {
+    url: string;
+    manual: boolean;     // url is a prefilled creation page the user still has to submit
+}
+
+export interface PullRequestUpdate {
+    title?: string;
+    body?: string;
+    baseBranch?: string;
+}
+
+export type PullRequestState = 'open' | 'merged' | 'closed';
+
+export type ChecksState = 'passing' | 'failing' | 'pending' | 'none';
+export type ReviewDecision = 'approved' | 'changes-requested' | 'review-required';
+export type MergeableState = 'mergeable' | 'conflicting' | 'blocked' | 'unknown';
+
+export interface CheckSummary {
+    state: ChecksState;
+    passed: number;
+    failed: number;
+    pending: number;
+}
+
+export interface PullRequestStatus {
+    url: string;
+    state: PullRequestState;
+    isDraft?: boolean;
+    baseBranch?: string;
+    body?: string;
+    // Shown in the Created PRs view; left out by forges that can't report them
+    checks?: CheckSummary;
+    reviewDecision?: ReviewDecision;
+    mergeable?: MergeableState;
+}
+
+/** An open PR as listed by the forge, e.g. to link a bucket to it. */
+export interface OpenPullRequest {
+    url: string;
+    title: string;
+    sourceBranch: string;
+    baseBranch: string;
+    isDraft?: boolean;
+}
+
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+export interface MergeOptions {
+    method: MergeMethod;
+    auto: boolean;       // enable auto-merge: the forge merges once checks and approvals pass
+}
+
+export interface ForgeProvider {
+    readonly id: string;
+    readonly displayName: string;
+    /** Set to false for providers that do not need branches on the origin remote (e.g. offline fakes). */
+    readonly requiresPush?: boolean;
+    /** Repository paths of PR description templates, directories ending in "/". Defaults to GitHub's locations. */
+    readonly templatePaths?: string[];
+    /** Metadata fields passed on to the forge; others are not offered in the bucket editor. */
+    readonly supportedMetadata?: MetadataField[];
+    /** Set to false when updatePullRequest can't change the base branch; PRs are then retargeted by hand. */
+    readonly canRetarget?: boolean;
+
+    /** Whether this provider handles the given origin remote URL. */
+    matches(remoteUrl: string): boolean;
+    checkAuth(context: ForgeContext): Promise<ForgeAuthStatus>;
+    createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult>;
+    updatePullRequest?(context: ForgeContext, prUrl: string, update: PullRequestUpdate): Promise<void>;
+    getPullRequestStatus?(context: ForgeContext, prUrl: string): Promise<PullRequestStatus>;
+    closePullRequest?(context: ForgeContext, prUrl: string, comment?: string): Promise<void>;
+    /** Open PRs of the repository, most recent first. */
+    listOpenPullRequests?(context: ForgeContext): Promise<OpenPullRequest[]>;
+    /** Merges the PR, or with `auto` asks the forge to merge it when it becomes mergeable. */
+    mergePullRequest?(context: ForgeContext, prUrl: string, options: MergeOptions): Promise<void>;
+    /** Browser URL of the repository home page. */
+    getRepositoryWebUrl(context: ForgeContext): string;
+    /** Known values for a metadata field, e.g. collaborators for reviewers. */
+    getSuggestions?(context: ForgeContext, kind: SuggestionKind): Promise<string[]>;
+}
+
+/** Public API returned from activate() for other extensions. */
+export interface MultiPRApi {
+    registerForgeProvider(provider: ForgeProvider): vscode.Disposable;
+}
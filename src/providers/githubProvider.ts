@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import { GITHUB_TEMPLATE_PATHS } from '../prTemplates';
+import { ProcessRunner, RunOptions } from '../processRunner';
+import { parseRemoteUrl } from '../remoteUrl';
+import { CheckSummary, ForgeAuthStatus, ForgeContext, ForgeProvider, MergeOptions, MetadataField, OpenPullRequest, PullRequestRequest, PullRequestResult, PullRequestStatus, PullRequestUpdate, ReviewDecision, SuggestionKind } from './forgeProvider';
+import { getMappedWebUrl } from './hostMappings';
+
+interface GitHubCheck {
+    __typename: 'CheckRun' | 'StatusContext';
+    status?: string;      // CheckRun: QUEUED, IN_PROGRESS, COMPLETED...
+    conclusion?: string;  // CheckRun: SUCCESS, FAILURE, SKIPPED...
+    state?: string;       // StatusContext: SUCCESS, FAILURE, ERROR, PENDING, EXPECTED
+}
+
+interface GitHubPullRequest {
+    url: string;
+    state: string;
+    isDraft: boolean;
+    baseRefName: string;
+    body: string;
+    statusCheckRollup?: GitHubCheck[];
+    reviewDecision: string;
+    mergeable: string;
+    mergeStateStatus: string;
+}
+
+const REVIEW_DECISIONS: Record<string, ReviewDecision | undefined> = {
+    APPROVED: 'approved',
+    CHANGES_REQUESTED: 'changes-requested',
+    REVIEW_REQUIRED: 'review-required'
+};
+
+function summarizeChecks(checks: GitHubCheck[]): CheckSummary {
+    const summary: CheckSummary = { state: 'none', passed: 0, failed: 0, pending: 0 };
+    for (const check of checks) {
+        const result = check.__typename === 'CheckRun'
+            ? (check.status === 'COMPLETED' ? check.conclusion : 'PENDING')
+            : check.state;
+        if (result === 'SUCCESS' || result === 'NEUTRAL' || result === 'SKIPPED') {
+            summary.passed++;
+        } else if (result === 'PENDING' || result === 'EXPECTED') {
+            summary.pending++;
+        } else {
+            summary.failed++;
+        }
+    }
+    summary.state = summary.failed > 0 ? 'failing' : summary.pending > 0 ? 'pending' : summary.passed > 0 ? 'passing' : 'none';
+    return summary;
+}
+
+/**
+ * GitHub.com, GitHub Enterprise Cloud (*.ghe.com) and, through `multiPR.hostMappings`,
+ * GitHub Enterprise Server. Uses gh when available, otherwise the compare page.
+ */
+export class GitHubProvider implements ForgeProvider {
+    readonly id = 'github';
+    readonly displayName = 'GitHub';
+    readonly templatePaths = GITHUB_TEMPLATE_PATHS;
+    readonly supportedMetadata: MetadataField[] = ['reviewers', 'assignees', 'labels', 'milestone', 'draft'];
+
+    constructor(private readonly runner: ProcessRunner) {}
+
+    matches(remoteUrl: string): boolean {
+        const host = parseRemoteUrl(remoteUrl)?.host;
+        return host === 'github.com' || !!host?.endsWith('.ghe.com');
+    }
+
+    // Web host of the remote; SSH aliases are resolved through the host mapping's webUrl
+    private getHost(context: ForgeContext): string {
+        return new URL(this.getRepositoryWebUrl(context)).host;
+    }
+
+    // gh picks the instance from GH_HOST when it can't tell from the remotes
+    private gh(context: ForgeContext, args: string[], options: Partial<RunOptions> = {}): Promise<string> {
+        return this.runner.run('gh', args, { cwd: context.workspaceRoot, env: { GH_HOST: this.getHost(context) }, ...options });
+    }
+
+    private useCLI(context: ForgeContext): boolean {
+        return !context.manual && vscode.workspace.getConfiguration('multiPR').get<boolean>('useGitHubCLI', true);
+    }
+
+    async checkAuth(context: ForgeContext): Promise<ForgeAuthStatus> {
+        if (!this.useCLI(context)) {
+            return { automatic: false };
+        }
+
+        try {
+            await this.runner.run('gh', ['--version'], { cwd: context.workspaceRoot, quiet: true });
+        } catch {
+            return { automatic: false, problem: 'GitHub CLI not found. Install it to create PRs without tokens.', installUrl: 'https://cli.github.com/' };
+        }
+
+        // Check if logged in to this instance
+        const host = this.getHost(context);
+        try {
+            await this.gh(context, ['auth', 'status', '--hostname', host], { quiet: true });
+        } catch {
+            return { automatic: false, problem: `GitHub CLI found but not authenticated for ${host}. Run: gh auth login --hostname ${host}` };
+        }
+
+        return { automatic: true };
+    }
+
+    async createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult> {
+        if (!this.useCLI(context)) {
+            // Manual PR creation: GitHub's compare page accepts the title, body, labels,
+            // milestone and assignees as query parameters (reviewers and draft are chosen on the page)
+            const metadata = request.metadata || {};
+            let query = `expand=1&title=${encodeURIComponent(request.title)}&body=${encodeURIComponent(request.body)}`;
+            if (metadata.labels?.length) {
+                query += `&labels=${encodeURIComponent(metadata.labels.join(','))}`;
+            }
+            if (metadata.milestone) {
+                query += `&milestone=${encodeURIComponent(metadata.milestone)}`;
+            }
+            if (metadata.assignees?.length) {
+                query += `&assignees=${encodeURIComponent(metadata.assignees.join(','))}`;
+            }
+            return {
+                url: `${this.getRepositoryWebUrl(context)}/compare/${encodeURIComponent(request.baseBranch)}...${encodeURIComponent(request.sourceBranch)}?${query}`,
+                manual: true
+            };
+        }
+
+        try {
+            // Create PR using GitHub CLI
+            // The body goes through stdin: large descriptions don't fit on a command line everywhere
+            const args = ['pr', 'create', '--title', request.title, '--body-file', '-', '--base', request.baseBranch, '--head', request.sourceBranch];
+            const metadata = request.metadata || {};
+            // GitHub refuses review requests to the PR author, e.g. when they are a code owner
+            const login = metadata.reviewers?.length ? (await this.getLogin(context))?.toLowerCase() : undefined;
+            const reviewers = (metadata.reviewers || []).filter(reviewer => reviewer.toLowerCase() !== login);
+            if (reviewers.length > 0) {
+                args.push('--reviewer', reviewers.join(','));
+            }
+            if (metadata.assignees?.length) {
+                args.push('--assignee', metadata.assignees.join(','));
+            }
+            if (metadata.labels?.length) {
+                args.push('--label', metadata.labels.join(','));
+            }
+            if (metadata.milestone) {
+                args.push('--milestone', metadata.milestone);
+            }
+            if (metadata.draft) {
+                args.push('--draft');
+            }
+
+            const output = await this.gh(context, args, { input: request.body });
+
+            // Extract PR URL from output
+            const urlMatch = output.match(/https?:\/\/\S+\/pull\/\d+/);
+            if (urlMatch) {
+                return { url: urlMatch[0], manual: false };
+            }
+
+            // Fallback: construct URL
+            return { url: `${this.getRepositoryWebUrl(context)}/pulls`, manual: false };
+        } catch (error) {
+            throw new Error(`Failed to create GitHub PR: ${error}`);
+        }
+    }
+
+    async updatePullRequest(context: ForgeContext, prUrl: string, update: PullRequestUpdate): Promise<void> {
+        const args = ['pr', 'edit', prUrl];
+        if (update.title !== undefined) {
+            args.push('--title', update.title);
+        }
+        if (update.body !== undefined) {
+            args.push('--body-file', '-');
+        }
+        if (update.baseBranch !== undefined) {
+            args.push('--base', update.baseBranch);
+        }
+
+        try {
+            await this.gh(context, args, { input: update.body });
+        } catch (error) {
+            throw new Error(`Failed to update GitHub PR ${prUrl}: ${error}`);
+        }
+    }
+
+    async getPullRequestStatus(context: ForgeContext, prUrl: string): Promise<PullRequestStatus> {
+        try {
+            const output = await this.gh(context, ['pr', 'view', prUrl, '--json', 'url,state,isDraft,baseRefName,body,statusCheckRollup,reviewDecision,mergeable,mergeStateStatus'], { quiet: true });
+            const pr = JSON.parse(output) as GitHubPullRequest;
+            return {
+                url: pr.url,
+                state: pr.state === 'MERGED' ? 'merged' : pr.state === 'CLOSED' ? 'closed' : 'open',
+                isDraft: pr.isDraft,
+                baseBranch: pr.baseRefName,
+                body: pr.body,
+                checks: summarizeChecks(pr.statusCheckRollup || []),
+                reviewDecision: REVIEW_DECISIONS[pr.reviewDecision],
+                mergeable: pr.mergeable === 'CONFLICTING' ? 'conflicting'
+                    : pr.mergeStateStatus === 'BLOCKED' ? 'blocked'
+                    : pr.mergeable === 'MERGEABLE' ? 'mergeable'
+                    : 'unknown'
+            };
+        } catch (error) {
+            throw new Error(`Failed to query GitHub PR ${prUrl}: ${error}`);
+        }
+    }
+
+    async listOpenPullRequests(context: ForgeContext): Promise<OpenPullRequest[]> {
+        try {
+            const output = await this.gh(context, ['pr', 'list', '--state', 'open', '--limit', '100', '--json', 'url,title,headRefName,baseRefName,isDraft'], { quiet: true });
+            const prs = JSON.parse(output) as { url: string; title: string; headRefName: string; baseRefName: string; isDraft: boolean }[];
+            return prs.map(pr => ({ url: pr.url, title: pr.title, sourceBranch: pr.headRefName, baseBranch: pr.baseRefName, isDraft: pr.isDraft }));
+        } catch (error) {
+            throw new Error(`Failed to list GitHub PRs: ${error}`);
+        }
+    }
+
+    async closePullRequest(context: ForgeContext, prUrl: string, comment?: string): Promise<void> {
+        try {
+            await this.gh(context, ['pr', 'close', prUrl, ...(comment ? ['--comment', comment] : [])]);
+        } catch (error) {
+            throw new Error(`Failed to close GitHub PR ${prUrl}: ${error}`);
+        }
+    }
+
+    async mergePullRequest(context: ForgeContext, prUrl: string, options: MergeOptions): Promise<void> {
+        try {
+            await this.gh(context, ['pr', 'merge', prUrl, `--${options.method}`, ...(options.auto ? ['--auto'] : [])]);
+        } catch (error) {
+            throw new Error(`Failed to merge GitHub PR ${prUrl}: ${error}`);
+        }
+    }
+
+    private async getLogin(context: ForgeContext): Promise<string | undefined> {
+        try {
+            return (await this.gh(context, ['api', 'user', '--jq', '.login'], { quiet: true })).trim();
+        } catch {
+            return undefined;
+        }
+    }
+
+    async getSuggestions(context: ForgeContext, kind: SuggestionKind): Promise<string[]> {
+        // gh fills in {owner}/{repo} from the current repository
+        const commands: Record<SuggestionKind, string[]> = {
+            reviewers: ['api', 'repos/{owner}/{repo}/collaborators', '--paginate', '--jq', '.[].login'],
+            assignees: ['api', 'repos/{owner}/{repo}/assignees', '--paginate', '--jq', '.[].login'],
+            labels: ['label', 'list', '--limit', '200', '--json', 'name', '--jq', '.[].name'],
+            milestone: ['api', 'repos/{owner}/{repo}/milestones', '--jq', '.[].title']
+        };
+
+        try {
+            const output = await this.gh(context, commands[kind], { quiet: true });
+            return output.split('\n').map(line => line.trim()).filter(Boolean);
+        } catch {
+            // gh missing, not logged in, or no permission to list collaborators
+            return [];
+        }
+    }
+
+    getRepositoryWebUrl(context: ForgeContext): string {
+        return getMappedWebUrl(context.remoteUrl);
+    }
+}
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import { ProcessRunner, RunOptions } from '../processRunner';
+import { parseRemoteUrl } from '../remoteUrl';
+import { CheckSummary, ForgeAuthStatus, ForgeContext, ForgeProvider, MergeOptions, MetadataField, OpenPullRequest, PullRequestMetadata, PullRequestRequest, PullRequestResult, PullRequestStatus, PullRequestUpdate, SuggestionKind } from './forgeProvider';
+import { getMappedWebUrl } from './hostMappings';
+
+interface GitLabMergeRequest {
+    web_url: string;
+    title: string;
+    state: string;
+    draft?: boolean;
+    source_branch: string;
+    target_branch: string;
+    description?: string;
+    head_pipeline?: { status: string };
+    has_conflicts?: boolean;
+    detailed_merge_status?: string;  // mergeable, not_approved, ci_still_running, conflict...
+}
+
+/**
+ * GitLab (gitlab.com and self-hosted). Uses glab when it is installed and logged
+ * in, otherwise a prefilled "new merge request" page.
+ */
+export class GitLabProvider implements ForgeProvider {
+    readonly id = 'gitlab';
+    readonly displayName = 'GitLab';
+    readonly templatePaths = ['.gitlab/merge_request_templates/'];
+    readonly supportedMetadata: MetadataField[] = ['reviewers', 'assignees', 'labels', 'milestone', 'draft'];
+
+    private cliReady: boolean | undefined;
+
+    constructor(private readonly runner: ProcessRunner) {}
+
+    private glab(context: ForgeContext, args: string[], options: Partial<RunOptions> = {}): Promise<string> {
+        return this.runner.run('glab', args, { cwd: context.workspaceRoot, ...options });
+    }
+
+    matches(remoteUrl: string): boolean {
+        // gitlab.com and self-hosted instances such as gitlab.example.com
+        return !!parseRemoteUrl(remoteUrl)?.host.split('.').some(label => label === 'gitlab' || label.startsWith('gitlab-'));
+    }
+
+    async checkAuth(context: ForgeContext): Promise<ForgeAuthStatus> {
+        // glab is optional: without it we fall back to a prefilled merge request URL
+        this.cliReady = false;
+        if (context.manual || !vscode.workspace.getConfiguration('multiPR').get<boolean>('useGitLabCLI', true)) {
+            return { automatic: false };
+        }
+
+        try {
+            await this.glab(context, ['--version'], { quiet: true });
+            const host = new URL(this.getRepositoryWebUrl(context)).host;
+            await this.glab(context, ['auth', 'status', '--hostname', host], { quiet: true });
+            this.cliReady = true;
+        } catch {
+            // Not installed or not logged in
+        }
+        return { automatic: this.cliReady };
+    }
+
+    async createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult> {
+        const config = vscode.workspace.getConfiguration('multiPR');
+        const removeSourceBranch = config.get<boolean>('gitlab.removeSourceBranch', false);
+        const targetProject = config.get<string>('gitlab.targetProject', '').trim();
+        const targetProjectId = config.get<string>('gitlab.targetProjectId', '').trim();
+        const metadata = request.metadata || {};
+
+        if (this.cliReady === undefined) {
+            await this.checkAuth(context);
+        }
+
+        if (!context.manual && this.cliReady) {
+            try {
+                const args = ['mr', 'create', '--yes', '--source-branch', request.sourceBranch, '--target-branch', request.baseBranch, '--title', request.title, '--description', request.body];
+                if (removeSourceBranch) {
+                    args.push('--remove-source-branch');
+                }
+                if (metadata.reviewers?.length) {
+                    args.push('--reviewer', metadata.reviewers.join(','));
+                }
+                if (metadata.assignees?.length) {
+                    args.push('--assignee', metadata.assignees.join(','));
+                }
+                if (metadata.labels?.length) {
+                    args.push('--label', metadata.labels.join(','));
+                }
+                if (metadata.milestone) {
+                    args.push('--milestone', metadata.milestone);
+                }
+                if (metadata.draft) {
+                    args.push('--draft');
+                }
+                if (targetProject) {
+                    // Open the MR against another project (e.g. upstream of a fork)
+                    const sourceProject = parseRemoteUrl(context.remoteUrl)?.path;
+                    args.push('--repo', targetProject, ...(sourceProject ? ['--head', sourceProject] : []));
+                }
+
+                const output = await this.glab(context, args);
+
+                const urlMatch = output.match(/https?:\/\/\S+\/-\/merge_requests\/\d+/);
+                if (urlMatch) {
+                    return { url: urlMatch[0], manual: false };
+                }
+                return { url: `${this.getRepositoryWebUrl(context)}/-/merge_requests`, manual: false };
+            } catch (error) {
+                throw new Error(`Failed to create GitLab merge request: ${error}`);
+            }
+        }
+
+        // Without glab, open GitLab's "new merge request" page with everything prefilled
+        const params = [
+            ['merge_request[source_branch]', request.sourceBranch],
+            ['merge_request[target_branch]', request.baseBranch],
+            ['merge_request[title]', request.title],
+            ['merge_request[description]', this.withQuickActions(request.body, metadata)]
+        ];
+        if (removeSourceBranch) {
+            params.push(['merge_request[force_remove_source_branch]', '1']);
+        }
+        if (targetProjectId) {
+            params.push(['merge_request[target_project_id]', targetProjectId]);
+        }
+
+        const query = params.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+        return { url: `${this.getRepositoryWebUrl(context)}/-/merge_requests/new?${query}`, manual: true };
+    }
+
+    // The new merge request page only takes IDs for people and labels, so use quick actions instead
+    private withQuickActions(body: string, metadata: PullRequestMetadata): string {
+        const actions: string[] = [];
+        if (metadata.assignees?.length) {
+            actions.push(`/assign ${metadata.assignees.map(user => `@${user}`).join(' ')}`);
+        }
+        if (metadata.reviewers?.length) {
+            actions.push(`/assign_reviewer ${metadata.reviewers.map(user => `@${user}`).join(' ')}`);
+        }
+        if (metadata.labels?.length) {
+            actions.push(`/label ${metadata.labels.map(label => `~"${label}"`).join(' ')}`);
+        }
+        if (metadata.milestone) {
+            actions.push(`/milestone %"${metadata.milestone}"`);
+        }
+        if (metadata.draft) {
+            actions.push('/draft');
+        }
+        return actions.length > 0 ? `${body}\n\n${actions.join('\n')}` : body;
+    }
+
+    async getSuggestions(context: ForgeContext, kind: SuggestionKind): Promise<string[]> {
+        // glab fills in :id from the current repository
+        const endpoints: Record<SuggestionKind, [string, string]> = {
+            reviewers: ['projects/:id/members/all?per_page=100', 'username'],
+            assignees: ['projects/:id/members/all?per_page=100', 'username'],
+            labels: ['projects/:id/labels?per_page=100', 'name'],
+            milestone: ['projects/:id/milestones?state=active&per_page=100', 'title']
+        };
+        const [endpoint, field] = endpoints[kind];
+
+        try {
+            const output = await this.glab(context, ['api', endpoint], { quiet: true });
+            return (JSON.parse(output) as Record<string, string>[]).map(item => item[field]).filter(Boolean);
+        } catch {
+            // glab missing or not logged in
+            return [];
+        }
+    }
+
+    /**
+     * The MR's iid followed by `--repo` and its project, taken from the URL: with
+     * multiPR.gitlab.targetProject the MR lives in another project than the checkout.
+     */
+    private getMergeRequestArgs(prUrl: string): string[] {
+        const match = prUrl.match(/^(.+?)\/-\/merge_requests\/(\d+)/);
+        if (!match) {
+            throw new Error(`Not a GitLab merge request URL: ${prUrl}`);
+        }
+        return [match[2], '--repo', match[1]];
+    }
+
+    async updatePullRequest(context: ForgeContext, prUrl: string, update: PullRequestUpdate): Promise<void> {
+        const args = ['mr', 'update', ...this.getMergeRequestArgs(prUrl), '--yes'];
+        if (update.title !== undefined) {
+            args.push('--title', update.title);
+        }
+        if (update.body !== undefined) {
+            args.push('--description', update.body);
+        }
+        if (update.baseBranch !== undefined) {
+            args.push('--target-branch', update.baseBranch);
+        }
+
+        try {
+            await this.glab(context, args);
+        } catch (error) {
+            throw new Error(`Failed to update GitLab merge request ${prUrl}: ${error}`);
+        }
+    }
+
+    async getPullRequestStatus(context: ForgeContext, prUrl: string): Promise<PullRequestStatus> {
+        try {
+            const output = await this.glab(context, ['mr', 'view', ...this.getMergeRequestArgs(prUrl), '--output', 'json'], { quiet: true });
+            const mr = JSON.parse(output) as GitLabMergeRequest;
+            const pipeline = mr.head_pipeline?.status;
+            // One pipeline stands for all checks; its jobs are not listed
+            const checks: CheckSummary = !pipeline ? { state: 'none', passed: 0, failed: 0, pending: 0 }
+                : pipeline === 'success' ? { state: 'passing', passed: 1, failed: 0, pending: 0 }
+                : ['failed', 'canceled'].includes(pipeline) ? { state: 'failing', passed: 0, failed: 1, pending: 0 }
+                : { state: 'pending', passed: 0, failed: 0, pending: 1 };
+            const mergeStatus = mr.detailed_merge_status;
+            return {
+                url: mr.web_url || prUrl,
+                state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+                isDraft: mr.draft,
+                baseBranch: mr.target_branch,
+                body: mr.description ?? '',
+                checks,
+                reviewDecision: mergeStatus === 'not_approved' ? 'review-required' : undefined,
+                mergeable: mr.has_conflicts || mergeStatus === 'conflict' ? 'conflicting'
+                    : mergeStatus === 'mergeable' ? 'mergeable'
+                    : mergeStatus && mergeStatus !== 'checking' && mergeStatus !== 'unchecked' ? 'blocked'
+                    : 'unknown'
+            };
+        } catch (error) {
+            throw new Error(`Failed to query GitLab merge request ${prUrl}: ${error}`);
+        }
+    }
+
+    async listOpenPullRequests(context: ForgeContext): Promise<OpenPullRequest[]> {
+        try {
+            const output = await this.glab(context, ['mr', 'list', '--per-page', '100', '--output', 'json'], { quiet: true });
+            const mrs = JSON.parse(output) as GitLabMergeRequest[];
+            return mrs.map(mr => ({ url: mr.web_url, title: mr.title, sourceBranch: mr.source_branch, baseBranch: mr.target_branch, isDraft: mr.draft }));
+        } catch (error) {
+            throw new Error(`Failed to list GitLab merge requests: ${error}`);
+        }
+    }
+
+    async closePullRequest(context: ForgeContext, prUrl: string, comment?: string): Promise<void> {
+        const mergeRequest = this.getMergeRequestArgs(prUrl);
+        try {
+            if (comment) {
+                await this.glab(context, ['mr', 'note', ...mergeRequest, '--message', comment]);
+            }
+            await this.glab(context, ['mr', 'close', ...mergeRequest]);
+        } catch (error) {
+            throw new Error(`Failed to close GitLab merge request ${prUrl}: ${error}`);
+        }
+    }
+
+    async mergePullRequest(context: ForgeContext, prUrl: string, options: MergeOptions): Promise<void> {
+        const args = ['mr', 'merge', ...this.getMergeRequestArgs(prUrl), '--yes', `--auto-merge=${options.auto}`];
+        if (options.method === 'squash') {
+            args.push('--squash');
+        } else if (options.method === 'rebase') {
+            args.push('--rebase');
+        }
+
+        try {
+            await this.glab(context, args);
+        } catch (error) {
+            throw new Error(`Failed to merge GitLab merge request ${prUrl}: ${error}`);
+        }
+    }
+
+    getRepositoryWebUrl(context: ForgeContext): string {
+        // Self-hosted GitLab often uses SSH on a custom port, which is not the web UI's
+        return getMappedWebUrl(context.remoteUrl);
+    }
+}
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { parseRemoteUrl, toWebUrl } from '../remoteUrl';
+
+export interface HostMapping {
+    provider: string;    // forge provider id, e.g. github or bitbucket-server
+    webUrl?: string;     // web UI base URL when it can't be derived from the remote (SSH aliases, context paths)
+}
+
+/**
+ * Looks up `multiPR.hostMappings` for the origin remote. Keys are host names,
+ * optionally with a port ("git.example.com:7999") to tell SSH and HTTPS apart;
+ * values are a provider id or { provider, webUrl }.
+ */
+export function findHostMapping(remoteUrl: string): HostMapping | undefined {
+    const remote = parseRemoteUrl(remoteUrl);
+    if (!remote) {
+        return undefined;
+    }
+
+    const mappings = vscode.workspace.getConfiguration('multiPR').get<Record<string, string | HostMapping>>('hostMappings', {});
+    const byHost = new Map(Object.entries(mappings).map(([host, value]) => [host.trim().toLowerCase(), value]));
+    const value = (remote.port !== undefined ? byHost.get(`${remote.host}:${remote.port}`) : undefined) ?? byHost.get(remote.host);
+
+    if (typeof value === 'string') {
+        return { provider: value };
+    }
+    return value && value.provider ? value : undefined;
+}
+
+/** Browser URL of the repository for host-based forges, honouring a mapped web URL. */
+export function getMappedWebUrl(remoteUrl: string): string {
+    const remote = parseRemoteUrl(remoteUrl);
+    return remote ? toWebUrl(remote, findHostMapping(remoteUrl)?.webUrl) : remoteUrl;
+}
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProcessRunner } from '../processRunner';
+import { ForgeAuthStatus, ForgeContext, ForgeProvider, MergeOptions, MetadataField, OpenPullRequest, PullRequestMetadata, PullRequestRequest, PullRequestResult, PullRequestState, PullRequestStatus, PullRequestUpdate } from './forgeProvider';
+
+interface LocalPullRequest {
+    id: number;
+    url: string;
+    title: string;
+    body: string;
+    sourceBranch: string;
+    baseBranch: string;
+    metadata?: PullRequestMetadata;
+    state: PullRequestState;
+    createdAt: string;
+    updatedAt: string;
+    comments: string[];
+}
+
+/**
+ * Offline fake forge: "opens" PRs by recording them in .git/multi-pr/local-prs.json
+ * and never pushes, so the whole flow can be exercised without a network.
+ * Selected with "multiPR.provider": "local"; it never matches a remote on its own.
+ */
+export class LocalProvider implements ForgeProvider {
+    readonly id = 'local';
+    readonly displayName = 'Local (offline)';
+    readonly requiresPush = false;
+    readonly supportedMetadata: MetadataField[] = ['reviewers', 'assignees', 'labels', 'milestone', 'draft'];
+
+    // Store path per workspace root, so getRepositoryWebUrl() can stay synchronous
+    private readonly storePaths = new Map<string, string>();
+
+    constructor(private readonly runner: ProcessRunner) {}
+
+    matches(): boolean {
+        return false;
+    }
+
+    async checkAuth(): Promise<ForgeAuthStatus> {
+        return { automatic: true };
+    }
+
+    private async getStorePath(context: ForgeContext): Promise<string> {
+        let storePath = this.storePaths.get(context.workspaceRoot);
+        if (!storePath) {
+            const gitDir = (await this.runner.git(['rev-parse', '--git-common-dir'], { cwd: context.workspaceRoot, quiet: true })).trim();
+            storePath = path.join(path.resolve(context.workspaceRoot, gitDir), 'multi-pr', 'local-prs.json');
+            this.storePaths.set(context.workspaceRoot, storePath);
+        }
+        return storePath;
+    }
+
+    private async read(context: ForgeContext): Promise<LocalPullRequest[]> {
+        const storePath = await this.getStorePath(context);
+        try {
+            return JSON.parse(fs.readFileSync(storePath, 'utf8')) as LocalPullRequest[];
+        } catch {
+            return [];
+        }
+    }
+
+    private async write(context: ForgeContext, prs: LocalPullRequest[]): Promise<void> {
+        const storePath = await this.getStorePath(context);
+        fs.mkdirSync(path.dirname(storePath), { recursive: true });
+        fs.writeFileSync(storePath, JSON.stringify(prs, null, 2), 'utf8');
+    }
+
+    private find(prs: LocalPullRequest[], prUrl: string): LocalPullRequest {
+        const pr = prs.find(p => p.url === prUrl);
+        if (!pr) {
+            throw new Error(`Local PR not found: ${prUrl}`);
+        }
+        return pr;
+    }
+
+    async createPullRequest(context: ForgeContext, request: PullRequestRequest): Promise<PullRequestResult> {
+        const prs = await this.read(context);
+        const id = prs.reduce((max, pr) => Math.max(max, pr.id), 0) + 1;
+        const now = new Date().toISOString();
+        const url = vscode.Uri.file(await this.getStorePath(context)).with({ fragment: `pr-${id}` }).toString();
+
+        prs.push({ id, url, ...request, state: 'open', createdAt: now, updatedAt: now, comments: [] });
+        await this.write(context, prs);
+        return { url, manual: false };
+    }
+
+    async updatePullRequest(context: ForgeContext, prUrl: string, update: PullRequestUpdate): Promise<void> {
+        const prs = await this.read(context);
+        const pr = this.find(prs, prUrl);
+        pr.title = update.title ?? pr.title;
+        pr.body = update.body ?? pr.body;
+        pr.baseBranch = update.baseBranch ?? pr.baseBranch;
+        pr.updatedAt = new Date().toISOString();
+        await this.write(context, prs);
+    }
+
+    async getPullRequestStatus(context: ForgeContext, prUrl: string): Promise<PullRequestStatus> {
+        const pr = this.find(await this.read(context), prUrl);
+        // No CI or reviews offline: every open PR is ready to merge
+        return { url: pr.url, state: pr.state, isDraft: !!pr.metadata?.draft, baseBranch: pr.baseBranch, body: pr.body, mergeable: 'mergeable' };
+    }
+
+    async listOpenPullRequests(context: ForgeContext): Promise<OpenPullRequest[]> {
+        return (await this.read(context))
+            .filter(pr => pr.state === 'open')
+            .reverse()
+            .map(pr => ({ url: pr.url, title: pr.title, sourceBranch: pr.sourceBranch, baseBranch: pr.baseBranch, isDraft: !!pr.metadata?.draft }));
+    }
+
+    async closePullRequest(context: ForgeContext, prUrl: string, comment?: string): Promise<void> {
+        const prs = await this.read(context);
+        const pr = this.find(prs, prUrl);
+        pr.state = 'closed';
+        if (comment) {
+            pr.comments.push(comment);
+        }
+        pr.updatedAt = new Date().toISOString();
+        await this.write(context, prs);
+    }
+
+    /**
+     * Merges the source branch into the base for real (auto-merge has no checks to wait
+     * for), so dependents can be rebased onto the base afterwards. Needs the base
+     * branch not to be checked out, since the merge runs in a temporary worktree.
+     */
+    async mergePullRequest(context: ForgeContext, prUrl: string, options: MergeOptions): Promise<void> {
+        const prs = await this.read(context);
+        const pr = this.find(prs, prUrl);
+        if (pr.state !== 'open') {
+            throw new Error(`Local PR ${prUrl} is ${pr.state}`);
+        }
+
+        const worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-pr-'));
+        try {
+            await this.runner.git(['worktree', 'add', worktreePath, pr.baseBranch], { cwd: context.workspaceRoot });
+            const run = (args: string[]) => this.runner.git(args, { cwd: worktreePath });
+            switch (options.method) {
+                case 'squash':
+                    await run(['merge', '--squash', pr.sourceBranch]);
+                    await run(['commit', '--no-verify', '-m', `${pr.title} (#${pr.id})`]);
+                    break;
+                case 'rebase':
+                    await run(['cherry-pick', `${pr.baseBranch}..${pr.sourceBranch}`]);
+                    break;
+                default:
+                    await run(['merge', '--no-ff', '-m', `Merge local PR #${pr.id} from ${pr.sourceBranch}`, pr.sourceBranch]);
+            }
+        } catch (error) {
+            throw new Error(`Failed to merge local PR ${prUrl} into ${pr.baseBranch}: ${error}`);
+        } finally {
+            try {
+                await this.runner.git(['worktree', 'remove', '--force', worktreePath], { cwd: context.workspaceRoot });
+            } catch {
+                fs.rmSync(worktreePath, { recursive: true, force: true });
+            }
+        }
+
+        pr.state = 'merged';
+        pr.updatedAt = new Date().toISOString();
+        await this.write(context, prs);
+    }
+
+    getRepositoryWebUrl(context: ForgeContext): string {
+        // The store once it has been located, else the repository folder
+        const storePath = this.storePaths.get(context.workspaceRoot);
+        return vscode.Uri.file(storePath || context.workspaceRoot).toString();
+    }
+}
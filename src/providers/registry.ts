@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { ProcessRunner } from '../processRunner';
+import { AzureDevOpsProvider } from './azureProvider';
+import { BitbucketProvider } from './bitbucketProvider';
+import { BitbucketServerProvider } from './bitbucketServerProvider';
+import { ForgeProvider } from './forgeProvider';
+import { GitHubProvider } from './githubProvider';
+import { GitLabProvider } from './gitlabProvider';
+import { findHostMapping } from './hostMappings';
+import { LocalProvider } from './localProvider';
+
+/** Holds the built-in forge providers plus any registered by other extensions. */
+export class ProviderRegistry {
+    private providers: ForgeProvider[];
+
+    constructor(runner: ProcessRunner) {
+        this.providers = [
+            new GitHubProvider(runner),
+            new BitbucketProvider(),
+            new BitbucketServerProvider(),
+            new GitLabProvider(runner),
+            new AzureDevOpsProvider(runner),
+            new LocalProvider(runner)
+        ];
+    }
+
+    register(provider: ForgeProvider): vscode.Disposable {
+        if (this.providers.some(p => p.id === provider.id)) {
+            throw new Error(`A forge provider with id "${provider.id}" is already registered`);
+        }
+        this.providers.push(provider);
+        return new vscode.Disposable(() => {
+            this.providers = this.providers.filter(p => p !== provider);
+        });
+    }
+
+    getAll(): ForgeProvider[] {
+        return [...this.providers];
+    }
+
+    /**
+     * Picks the provider for a remote: the one forced by `multiPR.provider`, then
+     * the one mapped to its host in `multiPR.hostMappings`, else the most recently
+     * registered provider that recognises the URL, so third-party providers can
+     * take over hosts the built-ins also match.
+     */
+    resolve(remoteUrl: string): ForgeProvider | undefined {
+        const forced = vscode.workspace.getConfiguration('multiPR').get<string>('provider', 'auto');
+        if (forced && forced !== 'auto') {
+            return this.providers.find(p => p.id === forced);
+        }
+        const mapping = findHostMapping(remoteUrl);
+        if (mapping) {
+            return this.providers.find(p => p.id === mapping.provider);
+        }
+        return [...this.providers].reverse().find(p => p.matches(remoteUrl));
+    }
+}
@@ -0,0 +1,167 @@
+// Parsing of git remote URLs (scp-style SSH, ssh://, https://) into host and repository path.
+
+export interface RemoteInfo {
+    protocol: 'ssh' | 'https' | 'http' | 'git' | 'file';
+    host: string;        // lower-cased host name, without user or port
+    port?: number;
+    path: string;        // repository path without leading slash or trailing .git, e.g. group/sub/repo
+}
+
+export function parseRemoteUrl(remoteUrl: string): RemoteInfo | undefined {
+    const url = remoteUrl.trim();
+
+    // scp-like syntax: [user@]host:path
+    const scp = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/\/)(.+)$/);
+    if (scp && !/^[a-z]+:\/\//i.test(url)) {
+        return { protocol: 'ssh', host: scp[1].toLowerCase(), path: cleanPath(scp[2]) };
+    }
+
+    try {
+        const parsed = new URL(url);
+        const protocol = parsed.protocol.replace(/:$/, '').replace(/^git\+ssh$/, 'ssh') as RemoteInfo['protocol'];
+        return {
+            protocol,
+            host: parsed.hostname.toLowerCase(),
+            port: parsed.port ? parseInt(parsed.port, 10) : undefined,
+            path: cleanPath(parsed.pathname)
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+function cleanPath(repoPath: string): string {
+    return repoPath.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '');
+}
+
+/**
+ * Scheme, host and port of the web UI for a remote. HTTP(S) remotes keep their
+ * port; SSH ports (e.g. 7999, 2222) say nothing about the web UI, so they are dropped.
+ */
+export function getWebBaseUrl(remote: RemoteInfo): string {
+    if (remote.protocol === 'https' || remote.protocol === 'http') {
+        return `${remote.protocol}://${remote.host}${remote.port ? `:${remote.port}` : ''}`;
+    }
+    return `https://${remote.host}`;
+}
+
+/** Browser URL of the repository's home page, optionally under a configured web base URL. */
+export function toWebUrl(remote: RemoteInfo, webBaseUrl?: string): string {
+    return `${(webBaseUrl || getWebBaseUrl(remote)).replace(/\/+$/, '')}/${remote.path}`;
+}
+
+export interface AzureRepo {
+    organizationUrl: string;  // e.g. https://dev.azure.com/org or https://org.visualstudio.com
+    project: string;
+    repository: string;
+    webUrl: string;           // <organizationUrl>/<project>/_git/<repository>
+}
+
+/**
+ * Recognises Azure DevOps remotes:
+ * https://[user@]dev.azure.com/org/project/_git/repo, git@ssh.dev.azure.com:v3/org/project/repo
+ * and the legacy org.visualstudio.com / vs-ssh.visualstudio.com forms.
+ */
+export function parseAzureRemote(remoteUrl: string): AzureRepo | undefined {
+    const remote = parseRemoteUrl(remoteUrl);
+    if (!remote) {
+        return undefined;
+    }
+
+    const segments = remote.path.split('/').map(segment => decodeURIComponent(segment));
+    let organizationUrl: string;
+    let project: string;
+    let repository: string;
+
+    if (remote.host === 'ssh.dev.azure.com' || remote.host === 'vs-ssh.visualstudio.com') {
+        // v3/org/project/repo
+        if (segments.length !== 4 || segments[0] !== 'v3') {
+            return undefined;
+        }
+        [, , project, repository] = segments;
+        organizationUrl = remote.host === 'ssh.dev.azure.com'
+            ? `https://dev.azure.com/${segments[1]}`
+            : `https://${segments[1]}.visualstudio.com`;
+    } else if (remote.host === 'dev.azure.com') {
+        // org/project/_git/repo
+        const gitIndex = segments.indexOf('_git');
+        if (gitIndex !== 2 || segments.length !== 4) {
+            return undefined;
+        }
+        organizationUrl = `https://dev.azure.com/${segments[0]}`;
+        [project, repository] = [segments[1], segments[3]];
+    } else if (remote.host.endsWith('.visualstudio.com')) {
+        // [DefaultCollection/]project/_git/repo
+        const gitIndex = segments.indexOf('_git');
+        if (gitIndex < 1 || gitIndex !== segments.length - 2) {
+            return undefined;
+        }
+        organizationUrl = `https://${remote.host}`;
+        [project, repository] = [segments[gitIndex - 1], segments[gitIndex + 1]];
+    } else {
+        return undefined;
+    }
+
+    return {
+        organizationUrl,
+        project,
+        repository,
+        webUrl: `${organizationUrl}/${encodeURIComponent(project)}/_git/${encodeURIComponent(repository)}`
+    };
+}
+
+export interface BitbucketServerRepo {
+    webBaseUrl: string;       // scheme, host, port and context path, e.g. https://git.example.com/bitbucket
+    projectKey: string;       // upper-cased project key, or ~user for personal repositories
+    repository: string;
+    webUrl: string;           // <webBaseUrl>/projects/<KEY>/repos/<repo> or <webBaseUrl>/users/<user>/repos/<repo>
+}
+
+/**
+ * Recognises Bitbucket Server / Data Center remotes:
+ * https://host[:port][/context]/scm/PROJ/repo.git and ssh://git@host:7999/proj/repo.git.
+ * SSH remotes carry no context path, so pass webBaseUrl when the web UI is not at https://host.
+ */
+export function parseBitbucketServerRemote(remoteUrl: string, webBaseUrl?: string): BitbucketServerRepo | undefined {
+    const remote = parseRemoteUrl(remoteUrl);
+    if (!remote) {
+        return undefined;
+    }
+
+    const segments = remote.path.split('/').map(segment => decodeURIComponent(segment));
+    let base: string;
+    let projectKey: string;
+    let repository: string;
+
+    if (remote.protocol === 'https' || remote.protocol === 'http') {
+        // [context/]scm/PROJ/repo
+        const scmIndex = segments.lastIndexOf('scm');
+        if (scmIndex < 0 || scmIndex !== segments.length - 3) {
+            return undefined;
+        }
+        const contextPath = segments.slice(0, scmIndex).map(segment => `/${encodeURIComponent(segment)}`).join('');
+        base = `${getWebBaseUrl(remote)}${contextPath}`;
+        [projectKey, repository] = [segments[scmIndex + 1], segments[scmIndex + 2]];
+    } else {
+        // PROJ/repo
+        if (segments.length !== 2) {
+            return undefined;
+        }
+        base = getWebBaseUrl(remote);
+        [projectKey, repository] = segments;
+    }
+
+    const personal = projectKey.startsWith('~');
+    projectKey = personal ? projectKey : projectKey.toUpperCase();
+    const webBase = (webBaseUrl || base).replace(/\/+$/, '');
+    const ownerPath = personal
+        ? `users/${encodeURIComponent(projectKey.substring(1))}`
+        : `projects/${encodeURIComponent(projectKey)}`;
+
+    return {
+        webBaseUrl: webBase,
+        projectKey,
+        repository,
+        webUrl: `${webBase}/${ownerPath}/repos/${encodeURIComponent(repository)}`
+    };
+}
@@ -0,0 +1,146 @@
+import { GitManager } from './gitOperations';
+import { CreatedStack, StackEntry } from './stackStore';
+
+export interface RestackOptions {
+    defaultBaseBranch: string;
+    onStackChange: (stack: CreatedStack) => void;  // persist progress after every branch
+    report: (message: string) => void;
+}
+
+export type RestackResult =
+    | { status: 'done'; rebased: string[]; retargeted: string[]; retargetByHand: string[] }  // "bucket → base" for forges that can't retarget
+    | { status: 'paused'; bucketName: string; baseBranch: string; conflicts: string[]; worktreePath: string };
+
+/**
+ * Brings the dependent branches of a stack up to date with their parents: each
+ * child is rebased onto its parent's current tip (or onto the default base once
+ * the parent PR has merged), force-pushed with lease and its PR retargeted if
+ * its base changed. Stops at the first rebase conflict, leaving it to the user.
+ */
+export class StackRestacker {
+    private readonly mergedCache = new Map<string, boolean>();
+    private readonly rebased: string[] = [];
+    private readonly retargeted: string[] = [];
+    private readonly retargetByHand: string[] = [];
+
+    constructor(
+        private readonly gitManager: GitManager,
+        private readonly options: RestackOptions
+    ) {}
+
+    async run(stack: CreatedStack): Promise<RestackResult> {
+        if (stack.paused) {
+            const paused = stack.paused;
+            if (await this.gitManager.isRebaseInProgress(paused.worktreePath)) {
+                return { status: 'paused', bucketName: paused.bucketName, baseBranch: paused.baseBranch, conflicts: [], worktreePath: paused.worktreePath };
+            }
+
+            // The user finished the rebase in the worktree
+            const entry = stack.entries.find(e => e.bucketName === paused.bucketName);
+            await this.gitManager.removeWorktree({ branchName: entry?.branchName || '', path: paused.worktreePath });
+            stack.paused = undefined;
+            if (entry) {
+                await this.finish(stack, entry, paused.baseBranch, paused.ontoSha, true);
+            }
+        }
+
+        // Entries are stored parents first, so every parent is current before its children
+        for (const entry of stack.entries) {
+            if (await this.isMerged(entry)) {
+                continue;  // Nothing left to rebase; its children move to its base instead
+            }
+
+            const baseBranch = await this.resolveBase(stack, entry);
+            if (!baseBranch) {
+                continue;
+            }
+
+            this.options.report(`Rebasing ${entry.bucketName} onto ${baseBranch}...`);
+            const outcome = await this.gitManager.rebaseBranch(entry.branchName, baseBranch, entry.baseSha);
+            if (outcome.conflicts) {
+                const worktree = outcome.worktree!;
+                stack.paused = { bucketName: entry.bucketName, worktreePath: worktree.path, baseBranch, ontoSha: outcome.ontoSha };
+                this.options.onStackChange(stack);
+                return { status: 'paused', bucketName: entry.bucketName, baseBranch, conflicts: outcome.conflicts, worktreePath: worktree.path };
+            }
+
+            await this.finish(stack, entry, baseBranch, outcome.ontoSha, outcome.changed);
+        }
+
+        return { status: 'done', rebased: this.rebased, retargeted: this.retargeted, retargetByHand: this.retargetByHand };
+    }
+
+    /**
+     * The branch a child now belongs on: its open parent, an integration branch for
+     * several open parents, or the default base once all parents have merged.
+     * Undefined for entries without parents, which stay where they are.
+     */
+    private async resolveBase(stack: CreatedStack, entry: StackEntry): Promise<string | undefined> {
+        const parents = (entry.dependsOn || [])
+            .map(name => stack.entries.find(e => e.bucketName === name))
+            .filter((parent): parent is StackEntry => !!parent);
+        if (parents.length === 0) {
+            return undefined;
+        }
+
+        const open: StackEntry[] = [];
+        for (const parent of parents) {
+            if (!await this.isMerged(parent)) {
+                open.push(parent);
+            }
+        }
+
+        if (open.length === 0) {
+            return this.options.defaultBaseBranch;
+        }
+        if (open.length === 1) {
+            return open[0].branchName;
+        }
+
+        this.options.report(`Merging parents of ${entry.bucketName} into an integration branch...`);
+        const { branchName } = await this.gitManager.createIntegrationBranch(entry.bucketName, open.map(parent => parent.branchName));
+        if ((await this.gitManager.getProvider())?.requiresPush !== false) {
+            await this.gitManager.pushBranch(branchName);
+        }
+        return branchName;
+    }
+
+    private async isMerged(entry: StackEntry): Promise<boolean> {
+        if (entry.merged || !entry.prUrl || entry.manual) {
+            return !!entry.merged;
+        }
+        if (!this.mergedCache.has(entry.bucketName)) {
+            this.options.report(`Checking the PR of ${entry.bucketName}...`);
+            const status = await this.gitManager.getPullRequestStatus(entry.prUrl);
+            this.mergedCache.set(entry.bucketName, status?.state === 'merged');
+        }
+        entry.merged = this.mergedCache.get(entry.bucketName) || undefined;
+        return !!entry.merged;
+    }
+
+    private async finish(stack: CreatedStack, entry: StackEntry, baseBranch: string, ontoSha: string, changed: boolean): Promise<void> {
+        if (changed) {
+            // Offline providers keep everything local
+            if ((await this.gitManager.getProvider())?.requiresPush !== false) {
+                this.options.report(`Pushing ${entry.bucketName}...`);
+                await this.gitManager.forcePushBranch(entry.branchName);
+            }
+            this.rebased.push(entry.bucketName);
+        }
+        entry.baseSha = ontoSha;
+
+        if (baseBranch !== entry.baseBranch) {
+            if (entry.prUrl && !entry.manual) {
+                this.options.report(`Changing the base of ${entry.bucketName} to ${baseBranch}...`);
+                if (await this.gitManager.retargetPullRequest(entry.prUrl, baseBranch)) {
+                    this.retargeted.push(entry.bucketName);
+                } else {
+                    this.retargetByHand.push(`${entry.bucketName} → ${baseBranch}`);
+                }
+            }
+            entry.baseBranch = baseBranch;
+        }
+
+        this.options.onStackChange(stack);
+    }
+}
@@ -0,0 +1,47 @@
+// Records every side effect of a "Create All PRs" run so a failed run can be undone.
+
+export type JournalEntry =
+    | { kind: 'branch'; bucketName: string; branchName: string }
+    | { kind: 'commit'; bucketName: string; branchName: string; sha: string }
+    | { kind: 'push'; bucketName: string; branchName: string }
+    | { kind: 'pr'; bucketName: string; branchName: string; url: string; manual: boolean }
+    // A linked bucket's existing branch moved on from previousSha, locally or on origin
+    | { kind: 'update'; bucketName: string; branchName: string; previousSha: string }
+    | { kind: 'update-push'; bucketName: string; branchName: string; previousSha: string };
+
+export class RunJournal {
+    readonly startedAt = new Date();
+    private readonly entries: JournalEntry[] = [];
+
+    constructor(readonly originalBranch: string) {}
+
+    record(entry: JournalEntry): void {
+        this.entries.push(entry);
+    }
+
+    /** Entries in the order they must be undone (most recent first). */
+    getUndoOrder(): JournalEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    getTouchedBuckets(): string[] {
+        return [...new Set(this.entries.map(entry => entry.bucketName))];
+    }
+
+    isEmpty(): boolean {
+        return this.entries.length === 0;
+    }
+
+    describe(): string {
+        return this.entries.map(entry => {
+            switch (entry.kind) {
+                case 'branch': return `• ${entry.bucketName}: created branch ${entry.branchName}`;
+                case 'commit': return `• ${entry.bucketName}: committed ${entry.sha.substring(0, 7)}`;
+                case 'push': return `• ${entry.bucketName}: pushed ${entry.branchName}`;
+                case 'pr': return `• ${entry.bucketName}: ${entry.manual ? 'prepared PR link' : 'opened PR'} ${entry.url}`;
+                case 'update': return `• ${entry.bucketName}: updated existing branch ${entry.branchName}`;
+                case 'update-push': return `• ${entry.bucketName}: pushed existing branch ${entry.branchName}`;
+            }
+        }).join('\n');
+    }
+}
@@ -0,0 +1,84 @@
+// The "Stack" table kept in the description of every PR created in the same run.
+
+const START_MARKER = '<!-- multi-pr:stack:start -->';
+const END_MARKER = '<!-- multi-pr:stack:end -->';
+
+/** A PR of the run; both buckets being processed and stored stack entries fit. */
+export interface StackRow {
+    bucketName: string;
+    title: string;
+    branchName?: string;
+    prUrl?: string;
+    manual?: boolean;    // prUrl is a prefilled creation link, not an opened PR
+    merged?: boolean;
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function describeStatus(row: StackRow): string {
+    if (row.merged) {
+        return '✅ Merged';
+    }
+    if (row.prUrl && !row.manual) {
+        return '🟢 Open';
+    }
+    return row.branchName ? '⏳ Not opened yet' : '⏳ Pending';
+}
+
+/** Markdown table of the run's PRs in merge order, marking the PR it is shown in. Empty for a lone PR. */
+export function renderStackSection(rows: StackRow[], current: string): string {
+    if (rows.length < 2) {
+        return '';
+    }
+
+    const lines = [
+        START_MARKER,
+        '### 📚 Stack',
+        '',
+        `This PR is part of a stack of ${rows.length} PRs. Merge them in this order:`,
+        '',
+        '| # | PR | Status |',
+        '|---|----|--------|'
+    ];
+    for (const [index, row] of rows.entries()) {
+        const title = escapeCell(row.title).replace(/[[\]]/g, '\\$&');
+        let cell: string;
+        if (row.bucketName === current) {
+            cell = `👉 **${title}** (this PR)`;
+        } else if (row.prUrl && !row.manual) {
+            cell = `[${title}](${row.prUrl})`;
+        } else {
+            cell = row.branchName ? `${title} (\`${row.branchName}\`)` : title;
+        }
+        lines.push(`| ${index + 1} | ${cell} | ${describeStatus(row)} |`);
+    }
+    lines.push(END_MARKER);
+    return lines.join('\n');
+}
+
+/** The stack section of a PR body, markers included, or '' when it has none. */
+export function extractStackSection(body: string): string {
+    const start = body.indexOf(START_MARKER);
+    const end = body.indexOf(END_MARKER, start);
+    return start >= 0 && end >= 0 ? body.substring(start, end + END_MARKER.length) : '';
+}
+
+/**
+ * Replaces the stack section of a PR body, or appends it when the body has none.
+ * An empty section removes the existing one. Text outside the markers is kept.
+ */
+export function upsertStackSection(body: string, section: string): string {
+    const start = body.indexOf(START_MARKER);
+    const end = body.indexOf(END_MARKER, start);
+    if (start >= 0 && end >= 0) {
+        const before = body.substring(0, start).replace(/\s+$/, '');
+        const after = body.substring(end + END_MARKER.length).replace(/^\s+/, '');
+        return [before, section, after].filter(Boolean).join('\n\n');
+    }
+    if (!section) {
+        return body;
+    }
+    return body.trim() ? `${body.replace(/\s+$/, '')}\n\n${section}` : section;
+}
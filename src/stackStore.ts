@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+/** One PR created by a "Create All PRs" run. */
+export interface StackEntry {
+    bucketName: string;
+    title: string;
+    branchName: string;
+    baseBranch: string;     // branch the PR targets
+    dependsOn?: string[];   // parent entries in the same stack
+    baseSha?: string;       // commit of the base the branch is built on; restack rebases the commits after it
+    prUrl?: string;
+    manual?: boolean;       // prUrl is a prefilled creation link, not an opened PR
+    merged?: boolean;
+}
+
+/** A restack stopped on a rebase conflict, left in a worktree for the user to resolve. */
+export interface RestackPause {
+    bucketName: string;
+    worktreePath: string;
+    baseBranch: string;     // branch the entry is being rebased onto
+    ontoSha: string;
+}
+
+/** The PRs of one run, in the order they were created (parents first). */
+export interface CreatedStack {
+    id: string;
+    createdAt: string;
+    sourceBranch: string;
+    entries: StackEntry[];
+    paused?: RestackPause;
+}
+
+interface StoredStacks {
+    version: 1;
+    stacks: CreatedStack[];
+}
+
+// Older runs are dropped beyond this
+const MAX_STACKS = 20;
+
+/** Keeps the stacks created from a repository in the workspace state, newest first. */
+export class StackStore {
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changed.event;
+
+    constructor(private readonly state: vscode.Memento, private readonly repoRoot: string) {}
+
+    private key(): string {
+        return `multiPR.stacks:${this.repoRoot}`;
+    }
+
+    getStacks(): CreatedStack[] {
+        const stored = this.state.get<StoredStacks>(this.key());
+        return stored?.version === 1 && Array.isArray(stored.stacks) ? stored.stacks : [];
+    }
+
+    /** Adds the stack or replaces the stored one with the same id. */
+    async saveStack(stack: CreatedStack): Promise<void> {
+        const existing = this.getStacks();
+        const stacks = existing.some(s => s.id === stack.id)
+            ? existing.map(s => s.id === stack.id ? stack : s)
+            : [stack, ...existing].slice(0, MAX_STACKS);
+        await this.state.update(this.key(), { version: 1, stacks } as StoredStacks);
+        this.changed.fire();
+    }
+
+    async removeStack(id: string): Promise<void> {
+        await this.state.update(this.key(), { version: 1, stacks: this.getStacks().filter(s => s.id !== id) } as StoredStacks);
+        this.changed.fire();
+    }
+}
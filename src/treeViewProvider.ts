@@ -1,7 +1,16 @@
 import * as vscode from 'vscode';
-import { execSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import { BucketStore } from './bucketStore';
+import { DependencyCycleError, findCycleWith, topologicalOrder } from './bucketGraph';
+import { CodeOwners, loadCodeOwners, ownersToReviewers } from './codeOwners';
+import { BucketCommitOptions } from './commitMessage';
+import { PullRequestMetadata } from './providers/forgeProvider';
+import { PipelineState, STAGE_LABELS } from './prPipeline';
+import { ProcessRunner } from './processRunner';
+import { PullRequestTracker } from './prTracker';
+import { CreatedStack, StackEntry } from './stackStore';
+import { DiffHunk, FileDiff, describeHunk, getChangeLineIndices, getNewLineNumber, getSelectedLineIndices, parseUnifiedDiff, selectHunkLines } from './diffParser';
 
 
 
@@ -17,9 +26,68 @@ export interface FileItem {
     isDirectory?: boolean;
     size?: number;
     lastModified?: Date;
-    gitStatus?: string;  // M, A, D, R, C, ??
+    gitStatus?: string;  // M, A, D, R, C, ?? - index and worktree letters combined, e.g. RM
+    indexStatus?: string;    // X of `git status --porcelain=v2`; '.' when unchanged in the index
+    worktreeStatus?: string; // Y of `git status --porcelain=v2`; '.' when unchanged in the worktree
+    originalPath?: string;   // path before a rename or copy
+    inBucket?: string;       // folders only: bucket whose files the folder groups; unset for available files
+    hunks?: DiffHunk[];  // only these hunks (or hunk pieces) of the file; undefined = whole file
+    stale?: boolean;     // restored from a saved session but no longer changed in git status
 }
 
+export interface HunkItem {
+    isHunk: true;
+    filePath: string;
+    hunk: DiffHunk;
+}
+
+// The "Branch Commits" section: commits of the current branch ahead of the base, bucketed whole
+export interface BranchCommitsItem {
+    isBranchCommits: true;
+}
+
+export interface CommitItem {
+    isCommit: true;
+    sha: string;
+    subject: string;
+    stale?: boolean;  // no longer on the branch (e.g. rebased away); skipped when processing
+}
+
+export type CommitNode = BranchCommitsItem | CommitItem;
+
+// Nodes of the "Created PRs" section: the section itself, one node per run, one per PR
+export interface CreatedPRsItem {
+    isCreatedPRs: true;
+}
+
+export interface StackItem {
+    isStack: true;
+    stack: CreatedStack;
+}
+
+export interface TrackedPRItem {
+    isTrackedPR: true;
+    stack: CreatedStack;
+    entry: StackEntry;
+}
+
+export type TrackedItem = CreatedPRsItem | StackItem | TrackedPRItem;
+
+
+/** Committed changes of the current branch being split, instead of working-tree changes. */
+export interface SplitRange {
+    from: string;   // commit the changes are taken relative to: the merge-base with the default base, or a commit's parent
+    to: string;     // last commit of the range
+    label: string;  // shown in the view, e.g. "4 commits since main"
+}
+
+/** An existing PR or branch that a bucket adds its changes to instead of opening a new PR. */
+export interface BucketTarget {
+    branchName: string;
+    baseBranch: string;
+    prUrl?: string;   // unset for a branch without an opened PR; processing opens one
+    title?: string;   // of the linked PR, for display
+}
 
 export interface PRBucket {
     name: string;
@@ -27,43 +95,68 @@ export interface PRBucket {
     description: string;
     files: FileItem[];
     branchName?: string;
-    dependsOn?: string; // Name of bucket this depends on
+    branchNameTemplate?: string; // Overrides multiPR.branchNameTemplate for this bucket
+    commit?: BucketCommitOptions; // Conventional Commit type/scope, template override, co-authors
+    descriptionTemplate?: string; // Repository PR template the description was seeded from
+    metadata?: PullRequestMetadata; // Reviewers, assignees, labels, milestone and draft flag for the PR
+    dependsOn?: string[]; // Names of the buckets this one builds on
     order?: number; // Order for processing dependencies
+    pipeline?: PipelineState; // Progress of the last "Create All PRs" run for this bucket
+    target?: BucketTarget; // Existing PR/branch to update instead of creating a new branch and PR
+    source?: SplitRange; // Committed range the files come from; unset for working-tree changes
+    commits?: CommitItem[]; // Whole commits cherry-picked onto the bucket's branch, in branch order
 }
 
-export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | FileItem | WelcomeItem>, vscode.TreeDragAndDropController<PRBucket | FileItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<PRBucket | FileItem | WelcomeItem | undefined | null | void>();
+export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem>, vscode.TreeDragAndDropController<PRBucket | FileItem | HunkItem | CommitNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private buckets: PRBucket[] = [];
     private gitChanges: FileItem[] = [];
+    private branchCommits: CommitItem[] = [];
+    private changedFiles = new Map<string, FileItem>();
+    private fileDiffs = new Map<string, FileDiff>();
     private workspaceRoot: string;
-    private isGitRepo: boolean = false;
+    private isGitRepo: boolean | undefined; // Unknown until the first load
+    private store: BucketStore | undefined;
+    private sourceBranch: string | undefined;
+    private split: SplitRange | undefined;
+    private codeOwners: CodeOwners | undefined;
+    private loading: Promise<void> = Promise.resolve();
 
     // Drag and drop support
     dropMimeTypes = ['application/vnd.code.tree.multiprview'];
     dragMimeTypes = ['application/vnd.code.tree.multiprview'];
 
-    constructor() {
+    constructor(private readonly runner: ProcessRunner, state?: vscode.Memento, private readonly tracker?: PullRequestTracker) {
         this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-        this.checkGitRepository();
+        // Nothing is saved before the first load has found the repository and its branch
+        if (state && this.workspaceRoot) {
+            this.store = new BucketStore(state, this.workspaceRoot);
+        }
+        // Status updates only redraw; there is nothing of the buckets to save
+        tracker?.onDidChange(() => this._onDidChangeTreeData.fire());
     }
 
-    private checkGitRepository(): void {
+    private git(args: string[]): Promise<string> {
+        return this.runner.git(args, { cwd: this.workspaceRoot, quiet: true });
+    }
+
+    private async checkGitRepository(): Promise<void> {
         try {
-            if (this.workspaceRoot) {
-                execSync('git rev-parse --git-dir', {
-                    cwd: this.workspaceRoot,
-                    stdio: 'ignore'
-                });
-                this.isGitRepo = true;
-            }
+            this.isGitRepo = await this.runner.succeeds('git', ['rev-parse', '--git-dir'], { cwd: this.workspaceRoot });
         } catch (error) {
             this.isGitRepo = false;
         }
     }
 
-    async loadGitChanges(): Promise<void> {
+    /** Re-reads the changes from git; loads run one after another so a later one always sees the latest buckets. */
+    loadGitChanges(): Promise<void> {
+        this.loading = this.loading.then(() => this.readGitState());
+        return this.loading;
+    }
+
+    private async readGitState(): Promise<void> {
         try {
             if (!this.workspaceRoot) {
                 this.gitChanges = [];
@@ -71,82 +164,439 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 return;
             }
 
+            await this.checkGitRepository();
             if (!this.isGitRepo) {
                 this.gitChanges = [];
                 this.refresh();
                 return;
             }
 
-            // Get git status
-            const output = execSync('git status --porcelain', {
-                cwd: this.workspaceRoot,
-                encoding: 'utf8'
+            await this.syncSourceBranch();
+            this.codeOwners = loadCodeOwners(this.workspaceRoot);
+
+            const changes = this.split ? await this.readSplitChanges(this.split) : await this.readWorkingTreeChanges();
+            this.changedFiles = new Map(changes.map(file => [file.path, file]));
+            await this.loadFileDiffs(changes);
+            this.reconcileBuckets();
+            await this.loadBranchCommits();
+            this.gitChanges = changes
+                .map(file => this.getAvailablePart(file))
+                .filter((file): file is FileItem => !!file);
+
+            this.refresh();
+        } catch (error) {
+            console.error('Error loading git changes:', error);
+            this.gitChanges = [];
+            this.refresh();
+        }
+    }
+
+    /**
+     * Changed and untracked files from `git status --porcelain=v2 -z`, which keeps
+     * paths unquoted and reports the index and worktree states of each file apart.
+     */
+    private async readWorkingTreeChanges(): Promise<FileItem[]> {
+        // Every file of a new directory is listed, not just the directory
+        const output = await this.git(['status', '--porcelain=v2', '-z', '--untracked-files=all']);
+
+        const files: FileItem[] = [];
+        const fields = output.split('\0');
+        for (let i = 0; i < fields.length; i++) {
+            const field = fields[i];
+            let xy: string;
+            let filePath: string;
+            let originalPath: string | undefined;
+
+            if (field.startsWith('1 ') || field.startsWith('u ')) {
+                // 1 XY sub mH mI mW hH hI path / u XY sub m1 m2 m3 mW h1 h2 h3 path
+                const parts = field.split(' ');
+                xy = parts[1];
+                filePath = parts.slice(field.startsWith('1 ') ? 8 : 10).join(' ');
+            } else if (field.startsWith('2 ')) {
+                // 2 XY sub mH mI mW hH hI Xscore path, then the original path as the next field
+                const parts = field.split(' ');
+                xy = parts[1];
+                filePath = parts.slice(9).join(' ');
+                originalPath = fields[++i];
+            } else if (field.startsWith('? ')) {
+                xy = '??';
+                filePath = field.substring(2);
+            } else {
+                // Ignored files, headers and the empty field after the last NUL
+                continue;
+            }
+
+            // Untracked nested repositories still come as a directory with a trailing slash
+            const hasTrailingSlash = filePath.endsWith('/');
+            if (hasTrailingSlash) {
+                filePath = filePath.replace(/\/+$/g, '');
+            }
+
+            const fullPath = path.join(this.workspaceRoot, filePath);
+            let size: number | undefined;
+            let lastModified: Date | undefined;
+            let isDir = false;
+
+            try {
+                const stats = fs.statSync(fullPath);
+                isDir = stats.isDirectory();
+                if (!isDir) {
+                    size = stats.size;
+                    lastModified = stats.mtime;
+                }
+            } catch (error) {
+                // File might be deleted or inaccessible; best-effort detection based on trailing slash
+                isDir = hasTrailingSlash;
+            }
+
+            // Skip pure directory entries; folders are derived from file paths
+            if (isDir) {
+                continue;
+            }
+
+            const status = xy === '??' ? xy : xy.replace(/\./g, '');
+            files.push({
+                path: filePath,
+                status: this.getStatusLabel(status),
+                label: filePath, // show full relative path like src/model/model.ts
+                gitStatus: status,
+                indexStatus: xy === '??' ? undefined : xy[0],
+                worktreeStatus: xy === '??' ? undefined : xy[1],
+                originalPath,
+                size,
+                lastModified,
+                isDirectory: false
             });
+        }
+        return files;
+    }
 
-            this.gitChanges = output
-                .split('\n')
-                .filter(line => line.trim() !== '')
-                .map(line => {
-                    const status = line.substring(0, 2).trim();
-                    let filePath = line.substring(3);
-
-                    // Normalize paths and detect directory markers from git (e.g., '?? src/')
-                    const hasTrailingSlash = filePath.endsWith('/') || filePath.endsWith('\\');
-                    if (hasTrailingSlash) {
-                        filePath = filePath.replace(/[\\/]+$/g, '');
-                    }
+    /** Files changed between the two commits of a split, one entry per path; a rename carries its original path. */
+    private async readSplitChanges(range: SplitRange): Promise<FileItem[]> {
+        const output = await this.git(['diff', '--name-status', '-z', '-M', range.from, range.to]);
+
+        const files: FileItem[] = [];
+        const fields = output.split('\0');
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            // R and C carry a similarity score and are followed by the original and the new path
+            const status = fields[i].charAt(0);
+            const originalPath = /^[RC]/.test(status) ? fields[++i] : undefined;
+            const filePath = fields[i + 1];
+            files.push({
+                path: filePath,
+                status: this.getStatusLabel(status),
+                label: filePath,
+                gitStatus: status,
+                originalPath,
+                isDirectory: false
+            });
+        }
+        return files;
+    }
 
-                    const fullPath = path.join(this.workspaceRoot, filePath);
-                    let size: number | undefined;
-                    let lastModified: Date | undefined;
-                    let isDir = false;
-                    
-                    try {
-                        const stats = fs.statSync(fullPath);
-                        isDir = stats.isDirectory();
-                        if (!isDir) {
-                            size = stats.size;
-                            lastModified = stats.mtime;
-                        }
-                    } catch (error) {
-                        // File might be deleted or inaccessible; best-effort detection based on trailing slash
-                        isDir = hasTrailingSlash;
-                    }
+    /** Swaps in the saved buckets of the checked-out branch when it differs from the loaded one. */
+    private async syncSourceBranch(): Promise<void> {
+        if (!this.store) {
+            return;
+        }
+
+        let branch = '';
+        try {
+            branch = (await this.git(['branch', '--show-current'])).trim();
+        } catch {
+            // Detached HEAD or git failure: fall back to the "(detached)" slot
+        }
+
+        if (branch !== this.sourceBranch) {
+            // A split belongs to the branch it was started on
+            this.sourceBranch = branch;
+            this.split = undefined;
+            this.buckets = this.store.load(branch);
+        }
+    }
+
+    // Split buckets are saved apart from the working-tree buckets of the same branch
+    private storeKey(): string {
+        return this.split ? `${this.sourceBranch}@split` : this.sourceBranch!;
+    }
+
+    getSplitRange(): SplitRange | undefined {
+        return this.split;
+    }
+
+    /**
+     * Switches between bucketing working-tree changes and bucketing the committed changes
+     * of the current branch. Each mode keeps its own buckets. Saved split buckets taken
+     * from a different range are dropped; returns how many.
+     */
+    async setSplitRange(range: SplitRange | undefined): Promise<number> {
+        await this.syncSourceBranch();
+        this.split = range;
+        const saved = this.store && this.sourceBranch !== undefined ? this.store.load(this.storeKey()) : [];
+        this.buckets = saved.filter(b => !range || (b.source?.from === range.from && b.source.to === range.to));
+        const dropped = saved.length - this.buckets.length;
+
+        await this.loadGitChanges();
+        return dropped;
+    }
+
+    /** Refreshes bucket files from `git status` (or the split range), flagging those that no longer have changes. */
+    private reconcileBuckets(): void {
+        const newlyStale: string[] = [];
+
+        for (const bucket of this.buckets) {
+            bucket.files = bucket.files.map(file => {
+                const current = this.changedFiles.get(file.path);
+                const hunksCurrent = !file.hunks || file.hunks.every(hunk => {
+                    const latest = this.fileDiffs.get(file.path)?.hunks[hunk.index];
+                    return !!latest && latest.lines.join('\n') === hunk.lines.join('\n');
+                });
 
-                    // Skip pure directory entries; we will derive folders from file paths
-                    if (isDir) {
-                        return null as any;
+                if (!current || !hunksCurrent) {
+                    if (!file.stale) {
+                        newlyStale.push(`${bucket.name}: ${file.path}`);
                     }
+                    return { ...file, stale: true };
+                }
+                return { ...current, hunks: file.hunks };
+            });
+        }
+
+        if (newlyStale.length > 0) {
+            vscode.window.showWarningMessage(
+                `⚠️ ${newlyStale.length} bucket file(s) no longer match git status and were flagged: ${newlyStale.slice(0, 5).join(', ')}${newlyStale.length > 5 ? ', …' : ''}`
+            );
+        }
+    }
 
-                    return {
-                        path: filePath,
-                        status: this.getStatusLabel(status),
-                        label: filePath, // show full relative path like src/model/model.ts
-                        gitStatus: status,
-                        size,
-                        lastModified,
-                        isDirectory: false
-                    } as FileItem;
-                })
-                .filter((file: FileItem | null) => !!file)
-                .filter((file: FileItem) => !this.isFileInBucket(file.path)) as FileItem[];
+    /** Commits of the current branch that aren't on the default base branch, oldest first; flags bucketed commits no longer among them. */
+    private async loadBranchCommits(): Promise<void> {
+        const baseBranch = vscode.workspace.getConfiguration('multiPR').get<string>('defaultBaseBranch', 'main');
+        this.branchCommits = [];
+
+        // Whatever was last fetched; refreshing the view shouldn't hit the network
+        for (const ref of [`refs/remotes/origin/${baseBranch}`, `refs/heads/${baseBranch}`]) {
+            try {
+                const output = await this.git(['log', '--reverse', '--format=%H%x09%s', 'HEAD', '--not', ref, '--']);
+                this.branchCommits = output.split('\n').filter(Boolean).map(line => {
+                    const [sha, ...subject] = line.split('\t');
+                    return { isCommit: true, sha, subject: subject.join('\t') } as CommitItem;
+                });
+                break;
+            } catch {
+                // Base branch not known under this ref
+            }
+        }
 
-            this.refresh();
+        const onBranch = new Set(this.branchCommits.map(commit => commit.sha));
+        for (const bucket of this.buckets.filter(b => b.commits?.length)) {
+            bucket.commits = bucket.commits!.map(commit => ({ ...commit, stale: !onBranch.has(commit.sha) || undefined }));
+        }
+    }
+
+    private isCommitInBucket(sha: string): boolean {
+        return this.buckets.some(bucket => bucket.commits?.some(commit => commit.sha === sha));
+    }
+
+    private async loadFileDiffs(changes: FileItem[]): Promise<void> {
+        this.fileDiffs.clear();
+
+        // Only plain modifications can be split; additions, deletions and renames move as whole files
+        const splittable = changes.filter(file => /^M+$/.test(file.gitStatus || ''));
+        if (splittable.length === 0) {
+            return;
+        }
+
+        try {
+            const range = this.split ? [this.split.from, this.split.to] : ['HEAD'];
+            const output = await this.git(['diff', ...range, '--no-color', '--no-ext-diff', '--', ...splittable.map(f => f.path)]);
+
+            for (const fileDiff of parseUnifiedDiff(output)) {
+                if (!fileDiff.binary && fileDiff.hunks.length > 0) {
+                    this.fileDiffs.set(fileDiff.filePath, fileDiff);
+                }
+            }
         } catch (error) {
-            console.error('Error loading git changes:', error);
-            this.gitChanges = [];
-            this.refresh();
+            console.error('Error loading diff hunks:', error);
+        }
+    }
+
+    /** Returns the part of a changed file not yet assigned to any bucket, or null when fully assigned. */
+    private getAvailablePart(file: FileItem): FileItem | null {
+        if (!this.fileDiffs.has(file.path)) {
+            return this.isFileInBucket(file.path) ? null : file;
+        }
+
+        const assigned = new Map<string, Set<number>>();
+        for (const bucket of this.buckets) {
+            this.getBucketSelection(bucket, file.path).forEach((indices, hunkId) => {
+                const union = assigned.get(hunkId) || new Set<number>();
+                indices.forEach(i => union.add(i));
+                assigned.set(hunkId, union);
+            });
+        }
+
+        const remaining = new Map<string, Set<number>>();
+        for (const hunk of this.fileDiffs.get(file.path)!.hunks) {
+            const taken = assigned.get(hunk.id);
+            remaining.set(hunk.id, new Set(getChangeLineIndices(hunk).filter(i => !taken?.has(i))));
+        }
+
+        return this.fileFromSelection(file, remaining);
+    }
+
+    /** Changed-line indices per hunk that a bucket holds for the given file. */
+    private getBucketSelection(bucket: PRBucket, filePath: string): Map<string, Set<number>> {
+        const selection = new Map<string, Set<number>>();
+        const entry = bucket.files.find(f => f.path === filePath && !f.stale);
+        if (!entry) {
+            return selection;
+        }
+
+        const pieces = entry.hunks || this.fileDiffs.get(filePath)?.hunks || [];
+        for (const piece of pieces) {
+            const indices = selection.get(piece.id) || new Set<number>();
+            getSelectedLineIndices(piece).forEach(i => indices.add(i));
+            selection.set(piece.id, indices);
+        }
+        return selection;
+    }
+
+    private fileFromSelection(file: FileItem, selection: Map<string, Set<number>>): FileItem | null {
+        const fileDiff = this.fileDiffs.get(file.path);
+        if (!fileDiff) {
+            return file;
+        }
+
+        const pieces = fileDiff.hunks
+            .filter(hunk => (selection.get(hunk.id)?.size || 0) > 0)
+            .map(hunk => selectHunkLines(hunk, selection.get(hunk.id)!));
+
+        if (pieces.length === 0) {
+            return null;
+        }
+        if (pieces.length === fileDiff.hunks.length && pieces.every(piece => !piece.selectedLines)) {
+            return { ...file, hunks: undefined };
+        }
+        return { ...file, hunks: pieces };
+    }
+
+    private setBucketSelection(bucket: PRBucket, filePath: string, selection: Map<string, Set<number>>): void {
+        const index = bucket.files.findIndex(f => f.path === filePath);
+        const base = this.changedFiles.get(filePath) || bucket.files[index];
+        const updated = base ? this.fileFromSelection(base, selection) : null;
+
+        if (index > -1) {
+            bucket.files.splice(index, 1);
+        }
+        if (updated) {
+            bucket.files.splice(index > -1 ? index : bucket.files.length, 0, updated);
+        }
+    }
+
+    /** Recomputes the "available" entry of a split file after its hunks moved between buckets. */
+    private syncAvailableFile(filePath: string): void {
+        const base = this.changedFiles.get(filePath);
+        const index = this.gitChanges.findIndex(f => f.path === filePath);
+        const available = base ? this.getAvailablePart(base) : null;
+
+        if (index > -1) {
+            this.gitChanges.splice(index, 1);
+        }
+        if (available) {
+            this.gitChanges.splice(index > -1 ? index : this.gitChanges.length, 0, available);
         }
     }
 
+    /** Hunk pieces of an unassigned part of `filePath` that touch the given working tree lines (1-based). */
+    getAvailableHunkLines(filePath: string, startLine: number, endLine: number): DiffHunk[] {
+        const available = this.gitChanges.find(f => f.path === filePath);
+        const fileDiff = this.fileDiffs.get(filePath);
+        if (!available || !fileDiff) {
+            return [];
+        }
+
+        const pieces = available.hunks || fileDiff.hunks;
+        return pieces
+            .map(piece => selectHunkLines(piece, getSelectedLineIndices(piece).filter(i => {
+                const lineNumber = getNewLineNumber(piece, i);
+                return lineNumber >= startLine && lineNumber <= endLine;
+            })))
+            .filter(piece => getSelectedLineIndices(piece).length > 0);
+    }
+
+    getOwners(filePath: string): string[] {
+        return this.codeOwners?.getOwners(filePath) || [];
+    }
+
+    /**
+     * Groups unassigned files by their CODEOWNERS owners into one bucket per owner set,
+     * with the owners as reviewers. Files without owners, or partly assigned already, stay put.
+     */
+    createBucketsByOwner(): { buckets: string[]; files: number; unowned: number } {
+        const groups = new Map<string, FileItem[]>();
+        let unowned = 0;
+        for (const file of this.gitChanges) {
+            if (this.isFileInBucket(file.path)) {
+                continue;
+            }
+            const owners = this.getOwners(file.path);
+            if (owners.length === 0) {
+                unowned++;
+                continue;
+            }
+            const key = [...owners].sort().join(' ');
+            groups.set(key, [...(groups.get(key) || []), file]);
+        }
+
+        const names: string[] = [];
+        let moved = 0;
+        for (const [key, files] of groups) {
+            const owners = key.split(' ');
+            const name = owners.join(' + ');
+            let bucket = this.buckets.find(b => b.name === name);
+            if (!bucket) {
+                bucket = { name, title: `Changes for ${owners.join(', ')}`, description: '', files: [] };
+                this.buckets.push(bucket);
+            }
+            bucket.metadata = {
+                ...bucket.metadata,
+                reviewers: [...new Set([...(bucket.metadata?.reviewers || []), ...ownersToReviewers(owners)])]
+            };
+            for (const file of files) {
+                if (this.moveFileToBucket(file, bucket)) {
+                    moved++;
+                }
+            }
+            names.push(name);
+        }
+
+        this.refresh();
+        return { buckets: names, files: moved, unowned };
+    }
+
+    /**
+     * The HEAD side of a diff, for the built-in git file provider: it needs an absolute path
+     * and a JSON query. A renamed file is looked up under its path at HEAD.
+     */
+    private getHeadUri(filePath: string, originalPath?: string): vscode.Uri {
+        const absolutePath = path.join(this.workspaceRoot, originalPath || filePath);
+        return vscode.Uri.file(absolutePath).with({ scheme: 'git', query: JSON.stringify({ path: absolutePath, ref: 'HEAD' }) });
+    }
+
     private isFileInBucket(filePath: string): boolean {
         return this.buckets.some(bucket =>
-            bucket.files.some(file => file.path === filePath)
+            bucket.files.some(file => file.path === filePath && !file.stale)
         );
     }
 
+    /** Label of a combined status such as RM or AM; renames and copies show as such even when edited since. */
     private getStatusLabel(status: string): string {
-        switch (status) {
+        if (status.includes('U') || status === 'AA' || status === 'DD') {
+            return 'Conflicted';
+        }
+        const significant = status === '??' ? status : /[RC]/.exec(status)?.[0] || status.charAt(0);
+        switch (significant) {
             case 'M': return 'Modified';
             case 'A': return 'Added';
             case 'D': return 'Deleted';
@@ -157,27 +607,75 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
         }
     }
 
-    createBucket(name: string, title: string, description: string): void {
+    createBucket(name: string, title: string, description: string, commit?: BucketCommitOptions, descriptionTemplate?: string): void {
         this.buckets.push({
             name,
             title,
             description,
-            files: []
+            files: [],
+            commit,
+            descriptionTemplate,
+            source: this.split
         });
         this.refresh();
     }
 
+    setBucketMetadata(bucketName: string, metadata: PullRequestMetadata): void {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (bucket) {
+            bucket.metadata = metadata;
+            this.refresh();
+        }
+    }
+
+    setBucketTitle(bucketName: string, title: string): void {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (bucket) {
+            bucket.title = title;
+            this.refresh();
+        }
+    }
+
+    setBucketDescription(bucketName: string, description: string): void {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (bucket) {
+            bucket.description = description;
+            this.refresh();
+        }
+    }
+
+    setBucketCommitOptions(bucketName: string, commit: BucketCommitOptions | undefined): void {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (bucket) {
+            bucket.commit = commit;
+            this.refresh();
+        }
+    }
+
     deleteBucket(bucket: PRBucket): void {
         const index = this.buckets.indexOf(bucket);
         if (index > -1) {
+            this.buckets.splice(index, 1);
+
+            // Children now build on the deleted bucket's place in the stack
+            for (const child of this.buckets.filter(b => b.dependsOn?.includes(bucket.name))) {
+                const parents = child.dependsOn!.filter(p => p !== bucket.name);
+                child.dependsOn = parents.length > 0 ? parents : undefined;
+            }
+            this.updateBucketOrder();
+
             // Move files back to git changes
             bucket.files.forEach(file => {
-                if (!this.gitChanges.find(f => f.path === file.path)) {
+                if (file.stale) {
+                    return;
+                }
+                if (this.fileDiffs.has(file.path)) {
+                    this.syncAvailableFile(file.path);
+                } else if (!this.gitChanges.find(f => f.path === file.path)) {
                     this.gitChanges.push(file);
                 }
             });
 
-            this.buckets.splice(index, 1);
             this.refresh();
         }
     }
@@ -191,54 +689,52 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
         this.loadGitChanges();
     }
 
-    setBucketDependency(bucketName: string, dependsOn: string | undefined): void {
+    removeBuckets(bucketNames: string[]): void {
+        this.buckets = this.buckets.filter(b => !bucketNames.includes(b.name));
+        this.loadGitChanges();
+    }
+
+    setBucketBranchTemplate(bucketName: string, template: string | undefined): void {
         const bucket = this.buckets.find(b => b.name === bucketName);
         if (bucket) {
-            bucket.dependsOn = dependsOn;
-            this.updateBucketOrder();
+            bucket.branchNameTemplate = template;
             this.refresh();
         }
     }
 
-    private updateBucketOrder(): void {
-        // Topological sort to determine processing order
-        const visited = new Set<string>();
-        const visiting = new Set<string>();
-        const order: string[] = [];
-
-        const visit = (bucketName: string): boolean => {
-            if (visiting.has(bucketName)) {
-                // Circular dependency detected
-                return false;
-            }
-            if (visited.has(bucketName)) {
-                return true;
-            }
+    /** Links the bucket to an existing PR or branch, or unlinks it. Any unfinished run of the bucket starts over. */
+    setBucketTarget(bucketName: string, target: BucketTarget | undefined): void {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (bucket) {
+            bucket.target = target;
+            bucket.branchName = undefined;
+            bucket.pipeline = undefined;
+            this.refresh();
+        }
+    }
 
-            visiting.add(bucketName);
-            const bucket = this.buckets.find(b => b.name === bucketName);
-            if (bucket?.dependsOn) {
-                if (!visit(bucket.dependsOn)) {
-                    return false;
-                }
+    /** Sets the bucket's parents. Throws a DependencyCycleError, leaving the graph unchanged, if that would create a cycle. */
+    setBucketDependency(bucketName: string, dependsOn: string[]): void {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (bucket) {
+            const cycle = findCycleWith(this.buckets, bucketName, dependsOn);
+            if (cycle) {
+                throw new DependencyCycleError(cycle);
             }
-            visiting.delete(bucketName);
-            visited.add(bucketName);
-            order.push(bucketName);
-            return true;
-        };
+            bucket.dependsOn = dependsOn.length > 0 ? dependsOn : undefined;
+            this.updateBucketOrder();
+            this.refresh();
+        }
+    }
 
-        // Visit all buckets
-        for (const bucket of this.buckets) {
-            if (!visited.has(bucket.name)) {
-                if (!visit(bucket.name)) {
-                    // Handle circular dependency by removing it
-                    vscode.window.showWarningMessage(`Circular dependency detected involving ${bucket.name}. Dependency removed.`);
-                    bucket.dependsOn = undefined;
-                    this.updateBucketOrder();
-                    return;
-                }
-            }
+    private updateBucketOrder(): void {
+        let order: string[];
+        try {
+            order = topologicalOrder(this.buckets);
+        } catch (error) {
+            // Only reachable with saved data edited by hand: report it and keep the user's dependencies
+            vscode.window.showErrorMessage(`❌ ${error instanceof Error ? error.message : error}. Fix it with "Set Dependency".`);
+            order = this.buckets.map(b => b.name);
         }
 
         // Assign order numbers
@@ -256,10 +752,41 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
+        this.persist();
     }
 
-    getTreeItem(element: PRBucket | FileItem | WelcomeItem): vscode.TreeItem {
-        if ('isWelcome' in element) {
+    private persist(): void {
+        if (!this.store || this.sourceBranch === undefined) {
+            return;
+        }
+        this.store.save(this.storeKey(), this.buckets).then(undefined, error => {
+            console.error('Error saving buckets:', error);
+        });
+    }
+
+    getTreeItem(element: PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem): vscode.TreeItem {
+        if ('isCreatedPRs' in element || 'isStack' in element || 'isTrackedPR' in element) {
+            return this.getTrackedTreeItem(element);
+        } else if ('isBranchCommits' in element) {
+            const available = this.branchCommits.filter(commit => !this.isCommitInBucket(commit.sha)).length;
+            const treeItem = new vscode.TreeItem('Branch Commits', vscode.TreeItemCollapsibleState.Collapsed);
+            treeItem.contextValue = 'branchCommits';
+            treeItem.description = `${available} of ${this.branchCommits.length} not in a bucket`;
+            treeItem.tooltip = 'Commits of this branch that are not on the base branch. Drag them into buckets to cherry-pick them, whole and in order, onto the bucket\'s branch.';
+            treeItem.iconPath = new vscode.ThemeIcon('git-commit');
+            return treeItem;
+        } else if ('isCommit' in element) {
+            const treeItem = new vscode.TreeItem(element.subject, vscode.TreeItemCollapsibleState.None);
+            treeItem.contextValue = 'commit';
+            treeItem.description = element.sha.substring(0, 7);
+            treeItem.iconPath = element.stale
+                ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+                : new vscode.ThemeIcon('git-commit');
+            treeItem.tooltip = element.stale
+                ? `${element.sha}\n${element.subject}\n\n⚠️ No longer on this branch; it will be skipped. Drag it out of the bucket to remove it.`
+                : `${element.sha}\n${element.subject}`;
+            return treeItem;
+        } else if ('isWelcome' in element) {
             // Welcome item
             const treeItem = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None);
             treeItem.description = element.description;
@@ -269,30 +796,118 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 treeItem.command = element.command;
             }
             return treeItem;
+        } else if ('isHunk' in element) {
+            // A hunk (or a line selection inside one) of a split file
+            const hunk = element.hunk;
+            const treeItem = new vscode.TreeItem(describeHunk(hunk), vscode.TreeItemCollapsibleState.None);
+            treeItem.contextValue = 'hunk';
+            treeItem.description = hunk.section;
+            treeItem.iconPath = new vscode.ThemeIcon('diff');
+
+            const selected = new Set(getSelectedLineIndices(hunk));
+            const preview = hunk.lines
+                .filter((line, i) => line.startsWith(' ') || selected.has(i))
+                .slice(0, 30);
+            treeItem.tooltip = `${element.filePath}\n\n${preview.join('\n')}${hunk.lines.length > preview.length ? '\n…' : ''}`;
+
+            const fileUri = vscode.Uri.file(path.join(this.workspaceRoot, element.filePath));
+            const firstLine = Math.max(hunk.newStart - 1, 0);
+            treeItem.command = {
+                command: 'vscode.diff',
+                title: 'Open Diff',
+                arguments: [
+                    this.getHeadUri(element.filePath, this.changedFiles.get(element.filePath)?.originalPath),
+                    fileUri,
+                    `${element.filePath} (Working Tree)`,
+                    { selection: new vscode.Range(firstLine, 0, firstLine, 0) }
+                ]
+            };
+            return treeItem;
         } else if ('files' in element) {
             // This is a PRBucket
-            const dependencyText = element.dependsOn ? ` → ${element.dependsOn}` : '';
+            const dependencyText = element.dependsOn?.length ? ` → ${element.dependsOn.join(', ')}` : '';
             const orderText = element.order !== undefined ? ` [${element.order + 1}]` : '';
             
             const treeItem = new vscode.TreeItem(
-                `${element.name}${orderText} (${element.files.length} files)${dependencyText}`,
-                element.files.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+                `${element.name}${orderText} (${element.files.length} files${element.commits?.length ? `, ${element.commits.length} commits` : ''})${dependencyText}`,
+                element.files.length > 0 || element.commits?.length ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
             );
             treeItem.contextValue = 'bucket';
             
             // Use different icon colors based on dependency status
-            const iconColor = element.dependsOn ? 
+            const iconColor = element.dependsOn?.length ? 
                 new vscode.ThemeColor('charts.orange') : 
                 new vscode.ThemeColor('charts.blue');
             treeItem.iconPath = new vscode.ThemeIcon('folder-opened', iconColor);
+
+            const pipeline = element.pipeline;
+            if (pipeline?.lastError) {
+                treeItem.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+                treeItem.description = `Failed after: ${STAGE_LABELS[pipeline.stage]}`;
+            } else if (pipeline?.stage === 'pr-opened') {
+                treeItem.iconPath = new vscode.ThemeIcon('git-pull-request', new vscode.ThemeColor('charts.green'));
+                treeItem.description = pipeline.manual ? 'Branch pushed' : STAGE_LABELS[pipeline.stage];
+            } else if (pipeline && pipeline.stage !== 'pending') {
+                treeItem.description = STAGE_LABELS[pipeline.stage];
+            } else if (element.target) {
+                treeItem.iconPath = new vscode.ThemeIcon('link', iconColor);
+                treeItem.description = `Updates ${element.target.branchName}`;
+            }
             
             let tooltip = `${element.title}\n${element.description || 'No description'}\n\nFiles: ${element.files.length}`;
-            if (element.dependsOn) {
-                tooltip += `\nDepends on: ${element.dependsOn}`;
+            if (element.commits?.length) {
+                tooltip += `\nCommits: ${element.commits.length} (cherry-picked in branch order)`;
+            }
+            if (element.dependsOn?.length) {
+                tooltip += `\nDepends on: ${element.dependsOn.join(', ')}`;
+                if (element.dependsOn.length > 1) {
+                    tooltip += ' (integration base)';
+                }
             }
             if (element.order !== undefined) {
                 tooltip += `\nProcessing order: ${element.order + 1}`;
             }
+            if (element.commit?.type) {
+                tooltip += `\nCommit: ${element.commit.type}${element.commit.scope ? `(${element.commit.scope})` : ''}${element.commit.breaking ? '!' : ''}`;
+            }
+            const bucketOwners = [...new Set(element.files.flatMap(f => this.getOwners(f.path)))];
+            if (bucketOwners.length > 0) {
+                tooltip += `\nCode owners: ${bucketOwners.join(', ')}`;
+            }
+            const metadata = element.metadata || {};
+            if (metadata.reviewers?.length) {
+                tooltip += `\nReviewers: ${metadata.reviewers.join(', ')}`;
+            }
+            if (metadata.assignees?.length) {
+                tooltip += `\nAssignees: ${metadata.assignees.join(', ')}`;
+            }
+            if (metadata.labels?.length) {
+                tooltip += `\nLabels: ${metadata.labels.join(', ')}`;
+            }
+            if (metadata.milestone) {
+                tooltip += `\nMilestone: ${metadata.milestone}`;
+            }
+            if (metadata.draft) {
+                tooltip += '\nDraft PR';
+            }
+            if (element.branchNameTemplate) {
+                tooltip += `\nBranch template: ${element.branchNameTemplate}`;
+            }
+            if (element.target) {
+                tooltip += `\nUpdates: ${element.target.prUrl ? `${element.target.title || 'PR'} (${element.target.prUrl})` : 'branch'} on ${element.target.branchName} → ${element.target.baseBranch}`;
+            }
+            if (pipeline) {
+                tooltip += `\n\nStatus: ${STAGE_LABELS[pipeline.stage]}`;
+                if (element.branchName) {
+                    tooltip += `\nBranch: ${element.branchName}`;
+                }
+                if (pipeline.prUrl) {
+                    tooltip += `\nPR: ${pipeline.prUrl}`;
+                }
+                if (pipeline.lastError) {
+                    tooltip += `\nLast error: ${pipeline.lastError}`;
+                }
+            }
             treeItem.tooltip = tooltip;
             return treeItem;
         }
@@ -301,17 +916,21 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 element.label,
                 vscode.TreeItemCollapsibleState.Collapsed
             );
+            const fileCount = this.getFolderFiles(element).length;
             treeItem.contextValue = 'folder';
             treeItem.resourceUri = vscode.Uri.file(path.join(this.workspaceRoot, element.path));
             treeItem.iconPath = vscode.ThemeIcon.Folder;
-            treeItem.tooltip = `Folder: ${element.path}`;
+            treeItem.description = `${fileCount} file(s)`;
+            treeItem.tooltip = `Folder: ${element.path}\n${fileCount} file(s) ${element.inBucket ? `in ${element.inBucket}` : 'available'}. Drag it to move them all.`;
             return treeItem;
         }
         else {
-            // This is a FileItem
+            // This is a FileItem; modified text files expand into their hunks
+            const fileDiff = element.stale ? undefined : this.fileDiffs.get(element.path);
             const treeItem = new vscode.TreeItem(
-                element.label,
-                vscode.TreeItemCollapsibleState.None
+                // Folders already show the directory in tree layout
+                this.isTreeLayout() ? path.posix.basename(element.path) : element.label,
+                fileDiff ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
             );
             treeItem.contextValue = 'file';
             treeItem.resourceUri = vscode.Uri.file(path.join(this.workspaceRoot, element.path));
@@ -371,7 +990,9 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 'Copied': new vscode.ThemeColor('gitDecoration.addedResourceForeground')
             };
 
-            if (statusColors[element.status as keyof typeof statusColors]) {
+            if (element.stale) {
+                treeItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+            } else if (statusColors[element.status as keyof typeof statusColors]) {
                 treeItem.iconPath = new vscode.ThemeIcon(iconName, statusColors[element.status as keyof typeof statusColors]);
             } else {
                 treeItem.iconPath = new vscode.ThemeIcon(iconName);
@@ -379,6 +1000,12 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
             
             // Enhanced tooltip with file information
             let tooltip = `${element.path} (${element.status})`;
+            if (element.originalPath) {
+                tooltip += `\n${element.status} from: ${element.originalPath}`;
+            }
+            if (element.indexStatus && element.worktreeStatus) {
+                tooltip += `\nStaged: ${element.indexStatus} · Unstaged: ${element.worktreeStatus}`;
+            }
             if (element.size !== undefined) {
                 const sizeStr = element.size < 1024 ? `${element.size} B` : 
                                element.size < 1024 * 1024 ? `${(element.size / 1024).toFixed(1)} KB` :
@@ -389,8 +1016,23 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 tooltip += `\nModified: ${element.lastModified.toLocaleString()}`;
             }
             
+            if (fileDiff && element.hunks) {
+                tooltip += `\nHunks: ${element.hunks.length} of ${fileDiff.hunks.length}`;
+            }
+
+            const owners = this.getOwners(element.path);
+            if (owners.length > 0) {
+                tooltip += `\nOwners: ${owners.join(', ')}`;
+            }
+
+            if (element.stale) {
+                tooltip += '\nNo longer changed in git status. Drag it out of the bucket to remove it.';
+            }
+
             treeItem.tooltip = tooltip;
-            treeItem.description = element.status;
+            treeItem.description = element.stale ? 'No longer changed' : fileDiff && element.hunks
+                ? `${element.status} · ${element.hunks.length}/${fileDiff.hunks.length} hunks`
+                : element.originalPath ? `${element.status} ← ${element.originalPath}` : element.status;
             
             // Add command to open preview for images, diff for text
             const imageExts = new Set(['.png', '.jpg', '.jpeg', '.gif', '.svg', '.bmp', '.webp']);
@@ -405,7 +1047,8 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                     command: 'vscode.diff',
                     title: 'Open Diff',
                     arguments: [
-                        vscode.Uri.parse(`git:${element.path}?HEAD`),
+                        // Built rather than parsed so '#', '?' or '%' in a path stay part of it
+                        this.getHeadUri(element.path, element.originalPath),
                         vscode.Uri.file(path.join(this.workspaceRoot, element.path)),
                         `${element.label} (Working Tree)`
                     ]
@@ -416,6 +1059,96 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
         }
     }
 
+    private getTrackedTreeItem(element: TrackedItem): vscode.TreeItem {
+        if ('isCreatedPRs' in element) {
+            const stacks = this.tracker?.getStacks() || [];
+            const treeItem = new vscode.TreeItem('Created PRs', vscode.TreeItemCollapsibleState.Expanded);
+            treeItem.contextValue = 'createdPRs';
+            treeItem.description = `${stacks.length} run(s)`;
+            treeItem.iconPath = new vscode.ThemeIcon('history');
+            treeItem.tooltip = 'PRs created by earlier runs, with their CI, review and merge status';
+            return treeItem;
+        }
+
+        if ('isStack' in element) {
+            const { stack } = element;
+            const isNewest = this.tracker?.getStacks()[0]?.id === stack.id;
+            const merged = stack.entries.filter(e => e.merged).length;
+            const treeItem = new vscode.TreeItem(
+                `From ${stack.sourceBranch || 'detached HEAD'}`,
+                isNewest ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+            );
+            treeItem.id = `stack:${stack.id}`;
+            treeItem.contextValue = 'createdStack';
+            treeItem.description = `${stack.paused ? 'Restack paused · ' : ''}${merged}/${stack.entries.length} merged · ${new Date(stack.createdAt).toLocaleDateString()}`;
+            treeItem.iconPath = new vscode.ThemeIcon(stack.paused ? 'debug-pause' : 'layers');
+            treeItem.tooltip = `Created ${new Date(stack.createdAt).toLocaleString()}${stack.paused ? `\nRestack paused on conflicts in ${stack.paused.bucketName}: ${stack.paused.worktreePath}` : ''}`;
+            return treeItem;
+        }
+
+        const { entry } = element;
+        const status = entry.prUrl && !entry.manual ? this.tracker?.getStatus(entry.prUrl) : undefined;
+        const treeItem = new vscode.TreeItem(entry.title, vscode.TreeItemCollapsibleState.None);
+        treeItem.id = `stack:${element.stack.id}:${entry.bucketName}`;
+        treeItem.contextValue = entry.prUrl ? 'trackedPR' : 'trackedBranch';
+
+        const details: string[] = [];
+        const tooltip = new vscode.MarkdownString(`**${entry.title}**\n\nBranch \`${entry.branchName}\` → \`${entry.baseBranch}\``);
+        if (entry.merged) {
+            treeItem.iconPath = new vscode.ThemeIcon('git-merge', new vscode.ThemeColor('charts.purple'));
+            details.push('merged');
+        } else if (!entry.prUrl || entry.manual) {
+            treeItem.iconPath = new vscode.ThemeIcon('git-branch');
+            details.push('PR not opened by the extension');
+        } else if (!status) {
+            treeItem.iconPath = new vscode.ThemeIcon('git-pull-request');
+            details.push('status not loaded');
+        } else if ('error' in status) {
+            treeItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+            details.push('status unavailable');
+            tooltip.appendText(`\n\n${status.error}`);
+        } else {
+            const checks = status.checks;
+            if (status.state === 'closed') {
+                treeItem.iconPath = new vscode.ThemeIcon('git-pull-request-closed', new vscode.ThemeColor('errorForeground'));
+                details.push('closed');
+            } else if (status.isDraft) {
+                treeItem.iconPath = new vscode.ThemeIcon('git-pull-request-draft');
+                details.push('draft');
+            } else {
+                const color = checks?.state === 'failing' || status.mergeable === 'conflicting' ? 'errorForeground'
+                    : checks?.state === 'pending' ? 'charts.yellow'
+                    : 'charts.green';
+                treeItem.iconPath = new vscode.ThemeIcon('git-pull-request', new vscode.ThemeColor(color));
+            }
+
+            if (checks && checks.state !== 'none') {
+                details.push(checks.state === 'failing' ? `✗ ${checks.failed} failing`
+                    : checks.state === 'pending' ? `◌ ${checks.pending} pending`
+                    : '✓ checks');
+                tooltip.appendMarkdown(`\n\nChecks: ${checks.passed} passed, ${checks.failed} failed, ${checks.pending} pending`);
+            }
+            if (status.reviewDecision) {
+                const review = { 'approved': '✔ approved', 'changes-requested': '✎ changes requested', 'review-required': 'review required' }[status.reviewDecision];
+                details.push(review);
+                tooltip.appendMarkdown(`\n\nReview: ${review}`);
+            }
+            if (status.mergeable === 'conflicting' || status.mergeable === 'blocked') {
+                details.push(status.mergeable === 'conflicting' ? '⚠ conflicts' : 'merge blocked');
+            }
+            if (status.mergeable) {
+                tooltip.appendMarkdown(`\n\nMergeable: ${status.mergeable}`);
+            }
+        }
+
+        treeItem.description = [entry.branchName, ...details].join(' · ');
+        if (entry.prUrl) {
+            tooltip.appendMarkdown(`\n\n${entry.manual ? 'PR creation link' : 'PR'}: ${entry.prUrl}`);
+        }
+        treeItem.tooltip = tooltip;
+        return treeItem;
+    }
+
     // getChildren(element?: PRBucket | FileItem | WelcomeItem): Thenable<(PRBucket | FileItem | WelcomeItem)[]> {
     //     if (!element) {
     //         // Root level
@@ -502,58 +1235,52 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
     //         return Promise.resolve([]);
     //     }
     // }
-    private getFilesAndFoldersAtLevel(files: FileItem[], currentPath: string = ''): FileItem[] {
-        const map = new Map<string, FileItem>();
-        const currentDepth = currentPath ? currentPath.split(path.sep).length : 0;
+    private isTreeLayout(): boolean {
+        return vscode.workspace.getConfiguration('multiPR').get<string>('fileLayout', 'list') === 'tree';
+    }
+
+    /** Files directly in `currentPath` and folders for its subdirectories; git paths always use '/'. */
+    private getFilesAndFoldersAtLevel(files: FileItem[], currentPath: string = '', bucketName?: string): FileItem[] {
+        const folders = new Map<string, FileItem>();
+        const direct: FileItem[] = [];
+        const prefix = currentPath ? `${currentPath}/` : '';
 
         for (const file of files) {
-            const segments = file.path.split(path.sep);
-            
-            // If we're at root level, show all files and first-level folders
-            if (currentPath === '') {
-                if (segments.length === 1) {
-                    // Top-level file
-                    map.set(file.path, file);
-                } else {
-                    // First-level folder
-                    const folderName = segments[0];
-                    if (!map.has(folderName)) {
-                        map.set(folderName, {
-                            path: folderName,
-                            label: folderName,
-                            status: '',
-                            isDirectory: true
-                        });
-                    }
-                }
+            if (!file.path.startsWith(prefix)) {
+                continue;
+            }
+
+            const relativeSegments = file.path.substring(prefix.length).split('/');
+            if (relativeSegments.length === 1) {
+                direct.push(file);
             } else {
-                // We're inside a folder, show files and subfolders at this level
-                if (file.path.startsWith(currentPath + path.sep)) {
-                    const relativePath = file.path.substring(currentPath.length + 1);
-                    const relativeSegments = relativePath.split(path.sep);
-                    
-                    if (relativeSegments.length === 1) {
-                        // Direct file in this folder
-                        map.set(file.path, file);
-                    } else {
-                        // Subfolder
-                        const subfolderName = relativeSegments[0];
-                        const subfolderPath = path.join(currentPath, subfolderName);
-                        if (!map.has(subfolderPath)) {
-                            map.set(subfolderPath, {
-                                path: subfolderPath,
-                                label: subfolderName,
-                                status: '',
-                                isDirectory: true
-                            });
-                        }
-                    }
+                const folderPath = prefix + relativeSegments[0];
+                if (!folders.has(folderPath)) {
+                    folders.set(folderPath, {
+                        path: folderPath,
+                        label: relativeSegments[0],
+                        status: '',
+                        isDirectory: true,
+                        inBucket: bucketName
+                    });
                 }
             }
         }
-        return Array.from(map.values());
+
+        // Folders first, like the explorer
+        const byLabel = (a: FileItem, b: FileItem) => a.label.localeCompare(b.label);
+        return [...Array.from(folders.values()).sort(byLabel), ...direct];
     }
-    getChildren(element?: PRBucket | FileItem | WelcomeItem): Thenable<(PRBucket | FileItem | WelcomeItem)[]> {
+
+    /** The files shown under a folder, in the bucket or the available files it belongs to. */
+    private getFolderFiles(folder: FileItem): FileItem[] {
+        const files = folder.inBucket
+            ? this.buckets.find(b => b.name === folder.inBucket)?.files || []
+            : this.gitChanges;
+        return files.filter(file => file.path.startsWith(`${folder.path}/`));
+    }
+
+    getChildren(element?: PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem): Thenable<(PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem)[]> {
         if (!element) {
             // Root level - show buckets and git changes
             if (!this.workspaceRoot) {
@@ -572,6 +1299,10 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 ]);
             }
 
+            if (this.isGitRepo === undefined) {
+                return Promise.resolve([]);
+            }
+
             if (!this.isGitRepo) {
                 return Promise.resolve([
                     {
@@ -584,7 +1315,21 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 ]);
             }
 
-            const items: (PRBucket | FileItem | WelcomeItem)[] = [];
+            const items: (PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem)[] = [];
+
+            if (this.split) {
+                items.push({
+                    isWelcome: true,
+                    label: `✂️ Splitting ${this.split.label}`,
+                    description: 'Click to change',
+                    tooltip: `Committed changes ${this.split.from.substring(0, 7)}..${this.split.to.substring(0, 7)} of ${this.sourceBranch || 'HEAD'}. Each bucket's branch is built from the base branch plus only its changes.`,
+                    icon: 'git-compare',
+                    command: {
+                        command: 'multiPR.splitBranch',
+                        title: 'Split Branch'
+                    }
+                } as WelcomeItem);
+            }
 
             // Add buckets
             items.push(...this.buckets);
@@ -595,16 +1340,24 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                     isWelcome: true,
                     label: '── Available Files ──',
                     description: 'Drag files into buckets above',
-                    tooltip: 'Files changed in your working directory',
+                    tooltip: this.split ? 'Files changed by the commits being split' : 'Files changed in your working directory',
                     icon: 'files'
                 } as WelcomeItem);
             }
 
-            // Show all changed files as a flat list with full relative paths
-            items.push(...this.gitChanges);
+            // Changed files as a flat list with full relative paths, or under their folders
+            items.push(...(this.isTreeLayout() ? this.getFilesAndFoldersAtLevel(this.gitChanges) : this.gitChanges));
 
             // Add welcome message if no changes
-            if (this.buckets.length === 0 && this.gitChanges.length === 0) {
+            if (this.buckets.length === 0 && this.gitChanges.length === 0 && this.split) {
+                items.push({
+                    isWelcome: true,
+                    label: 'No Committed Changes',
+                    description: 'These commits change no files',
+                    tooltip: 'The commits being split do not change any file',
+                    icon: 'check'
+                } as WelcomeItem);
+            } else if (this.buckets.length === 0 && this.gitChanges.length === 0) {
                 items.push({
                     isWelcome: true,
                     label: 'No Changes Found',
@@ -618,12 +1371,30 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                 } as WelcomeItem);
             }
 
+            if (this.branchCommits.length > 0) {
+                items.push({ isBranchCommits: true });
+            }
+
+            if (this.tracker && this.tracker.getStacks().length > 0) {
+                items.push({ isCreatedPRs: true });
+            }
+
             return Promise.resolve(items);
+        } else if ('isBranchCommits' in element) {
+            return Promise.resolve(this.branchCommits.filter(commit => !this.isCommitInBucket(commit.sha)));
+        } else if ('isCommit' in element) {
+            return Promise.resolve([]);
+        } else if ('isCreatedPRs' in element) {
+            return Promise.resolve(this.tracker?.getStacks().map(stack => ({ isStack: true, stack } as StackItem)) || []);
+        } else if ('isStack' in element) {
+            return Promise.resolve(element.stack.entries.map(entry => ({ isTrackedPR: true, stack: element.stack, entry } as TrackedPRItem)));
+        } else if ('isTrackedPR' in element) {
+            return Promise.resolve([]);
         } else if ('files' in element) {
             // Bucket - show files in a structured way
-            const items: (FileItem | WelcomeItem)[] = [];
+            const items: (FileItem | CommitItem | WelcomeItem)[] = [];
             
-            if (element.files.length === 0) {
+            if (element.files.length === 0 && !element.commits?.length) {
                 items.push({
                     isWelcome: true,
                     label: 'Empty bucket',
@@ -632,74 +1403,105 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
                     icon: 'arrow-down'
                 } as WelcomeItem);
             } else {
-                // Show files in the bucket
-                items.push(...element.files);
+                // Show files in the bucket, then its commits
+                const files = this.isTreeLayout() ? this.getFilesAndFoldersAtLevel(element.files, '', element.name) : element.files;
+                items.push(...files, ...(element.commits || []));
             }
 
             return Promise.resolve(items);
+        } else if ('isHunk' in element || 'isWelcome' in element) {
+            return Promise.resolve([]);
         } else if ((element as FileItem).isDirectory !== undefined && (element as FileItem).isDirectory) {
-            // Directory - show contents from git changes that are in this directory
+            // Directory - show the next level of the files it groups
             const folderElement = element as FileItem;
-            const folderItems = this.getFilesAndFoldersAtLevel(this.gitChanges, folderElement.path);
-            return Promise.resolve(folderItems);
+            return Promise.resolve(this.getFilesAndFoldersAtLevel(this.getFolderFiles(folderElement), folderElement.path, folderElement.inBucket));
         } else {
-            // File or welcome item - no children
-            return Promise.resolve([]);
+            // File - show its hunks when it can be split
+            const fileDiff = this.fileDiffs.get(element.path);
+            const pieces = element.stale ? [] : element.hunks || fileDiff?.hunks || [];
+            return Promise.resolve(pieces.map(hunk => ({ isHunk: true, filePath: element.path, hunk } as HunkItem)));
         }
     }
 
 
     // Drag and Drop Implementation
-    async handleDrag(source: (PRBucket | FileItem)[], treeDataTransfer: vscode.DataTransfer): Promise<void> {
-        // Only allow actual files (not buckets, not folders) to be dragged
-        const fileItems = source
+    async handleDrag(source: (PRBucket | FileItem | HunkItem | CommitNode)[], treeDataTransfer: vscode.DataTransfer): Promise<void> {
+        // Only allow files, folders, hunks and commits (not buckets or created PRs) to be dragged
+        const items = source
+            .filter(item => 'isHunk' in item || 'isCommit' in item || 'path' in item)
             .filter(item => !('files' in item))
-            .filter(item => !(item as FileItem).isDirectory) as FileItem[];
-        if (fileItems.length > 0) {
-            treeDataTransfer.set('application/vnd.code.tree.multiprview', new vscode.DataTransferItem(fileItems));
+            // A folder carries the files shown under it
+            .flatMap(item => (item as FileItem).isDirectory ? this.getFolderFiles(item as FileItem) : [item]) as (FileItem | HunkItem | CommitItem)[];
+        if (items.length > 0) {
+            treeDataTransfer.set('application/vnd.code.tree.multiprview', new vscode.DataTransferItem(items));
         }
     }
 
-    async handleDrop(target: PRBucket | FileItem | WelcomeItem | undefined, sources: vscode.DataTransfer): Promise<void> {
+    async handleDrop(target: PRBucket | FileItem | HunkItem | CommitNode | WelcomeItem | TrackedItem | undefined, sources: vscode.DataTransfer): Promise<void> {
         const transferItem = sources.get('application/vnd.code.tree.multiprview');
         if (!transferItem) {
             return;
         }
 
-        const fileItems = transferItem.value as FileItem[];
-
-        if (target && 'files' in target) {
-            // Dropping onto a bucket
-            let moved = 0;
-            fileItems.forEach(file => {
-                if (this.moveFileToBucket(file, target)) {
-                    moved++;
-                }
-            });
+        if (target && ('isCreatedPRs' in target || 'isStack' in target || 'isTrackedPR' in target)) {
+            return;
+        }
 
-            if (moved > 0) {
-                vscode.window.showInformationMessage(`✅ Moved ${moved} file(s) to ${target.name}`);
+        const items = transferItem.value as (FileItem | HunkItem | CommitItem)[];
+        // Dropping on a folder inside a bucket drops into that bucket
+        const bucket = target && 'files' in target ? target
+            : target && 'inBucket' in target && target.inBucket ? this.buckets.find(b => b.name === target.inBucket)
+            : undefined;
+        let movedFiles = 0;
+        let movedHunks = 0;
+        let movedCommits = 0;
+
+        items.forEach(item => {
+            if ('isCommit' in item) {
+                movedCommits += this.moveCommit(item, bucket) ? 1 : 0;
+            } else if ('isHunk' in item) {
+                movedHunks += this.moveHunk(item.hunk, bucket) ? 1 : 0;
+            } else if (item.hunks && !item.stale) {
+                // A partially assigned file carries only its own pieces along
+                item.hunks.forEach(hunk => {
+                    movedHunks += this.moveHunk(hunk, bucket) ? 1 : 0;
+                });
+            } else if (bucket) {
+                movedFiles += this.moveFileToBucket(item, bucket) ? 1 : 0;
+            } else {
+                movedFiles += this.moveFileToGitChanges(item) ? 1 : 0;
             }
-        } else {
-            // Dropping onto root or other item - move back to git changes
-            let moved = 0;
-            fileItems.forEach(file => {
-                if (this.moveFileToGitChanges(file)) {
-                    moved++;
-                }
-            });
+        });
 
-            if (moved > 0) {
-                vscode.window.showInformationMessage(`↩️ Moved ${moved} file(s) back to available files`);
-            }
+        const moved = [
+            movedFiles > 0 ? `${movedFiles} file(s)` : '',
+            movedHunks > 0 ? `${movedHunks} hunk(s)` : '',
+            movedCommits > 0 ? `${movedCommits} commit(s)` : ''
+        ].filter(Boolean).join(' and ');
+
+        if (moved) {
+            vscode.window.showInformationMessage(bucket
+                ? `✅ Moved ${moved} to ${bucket.name}`
+                : `↩️ Moved ${moved} back to ${movedFiles + movedHunks > 0 ? 'available files' : 'branch commits'}`);
         }
 
         this.refresh();
     }
 
+    assignHunk(hunk: DiffHunk, bucketName: string): boolean {
+        const bucket = this.buckets.find(b => b.name === bucketName);
+        if (!bucket) {
+            return false;
+        }
+
+        const moved = this.moveHunk(hunk, bucket);
+        this.refresh();
+        return moved;
+    }
+
     private moveFileToBucket(file: FileItem, bucket: PRBucket): boolean {
-        // Check if file is already in this bucket
-        if (bucket.files.find(f => f.path === file.path)) {
+        // Check if the whole file is already in this bucket
+        if (bucket.files.find(f => f.path === file.path && !f.hunks)) {
             return false;
         }
 
@@ -709,7 +1511,7 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
             this.gitChanges.splice(gitIndex, 1);
         }
 
-        // Remove from other buckets
+        // Remove from other buckets (including hunks of it held elsewhere)
         this.buckets.forEach(b => {
             const bucketIndex = b.files.findIndex(f => f.path === file.path);
             if (bucketIndex > -1) {
@@ -718,13 +1520,13 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
         });
 
         // Add to target bucket
-        bucket.files.push(file);
+        bucket.files.push(this.changedFiles.get(file.path) || file);
         return true;
     }
 
     private moveFileToGitChanges(file: FileItem): boolean {
         // Check if file is already in git changes
-        if (this.gitChanges.find(f => f.path === file.path)) {
+        if (!file.stale && !this.fileDiffs.has(file.path) && this.gitChanges.find(f => f.path === file.path)) {
             return false;
         }
 
@@ -738,13 +1540,71 @@ export class MultiPRTreeProvider implements vscode.TreeDataProvider<PRBucket | F
             }
         });
 
-        // Add back to git changes
-        if (removed) {
-            this.gitChanges.push(file);
+        // Add back to git changes; stale entries have nothing left to offer
+        if (removed && !file.stale) {
+            if (this.fileDiffs.has(file.path)) {
+                this.syncAvailableFile(file.path);
+            } else {
+                this.gitChanges.push(file);
+            }
         }
 
         return removed;
     }
+
+    /** Moves a commit into `target`, kept in branch order, or out of every bucket when undefined. */
+    private moveCommit(commit: CommitItem, target: PRBucket | undefined): boolean {
+        if (target?.commits?.some(c => c.sha === commit.sha)) {
+            return false;
+        }
+
+        let removed = false;
+        for (const bucket of this.buckets.filter(b => b.commits?.some(c => c.sha === commit.sha))) {
+            bucket.commits = bucket.commits!.filter(c => c.sha !== commit.sha);
+            removed = true;
+        }
+
+        if (!target) {
+            return removed;
+        }
+        const position = (sha: string) => this.branchCommits.findIndex(c => c.sha === sha);
+        target.commits = [...(target.commits || []), { ...commit }]
+            .sort((a, b) => position(a.sha) - position(b.sha));
+        return true;
+    }
+
+    /** Moves a hunk (or line selection) into `target`, or back to the available files when undefined. */
+    private moveHunk(hunk: DiffHunk, target: PRBucket | undefined): boolean {
+        const indices = getSelectedLineIndices(hunk);
+        let changed = false;
+
+        for (const bucket of this.buckets) {
+            if (bucket === target) {
+                continue;
+            }
+            const selection = this.getBucketSelection(bucket, hunk.filePath);
+            const held = selection.get(hunk.id);
+            if (held && indices.some(i => held.has(i))) {
+                indices.forEach(i => held.delete(i));
+                this.setBucketSelection(bucket, hunk.filePath, selection);
+                changed = true;
+            }
+        }
+
+        if (target) {
+            const selection = this.getBucketSelection(target, hunk.filePath);
+            const held = selection.get(hunk.id) || new Set<number>();
+            if (indices.some(i => !held.has(i))) {
+                indices.forEach(i => held.add(i));
+                selection.set(hunk.id, held);
+                this.setBucketSelection(target, hunk.filePath, selection);
+                changed = true;
+            }
+        }
+
+        this.syncAvailableFile(hunk.filePath);
+        return changed;
+    }
 }
 
 interface WelcomeItem {